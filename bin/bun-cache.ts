@@ -0,0 +1,53 @@
+#!/usr/bin/env bun
+/**
+ * @file Entry point of the `bun-cache` command line tool. Connects to the url passed with `--url`
+ * or the REDIS_URL env variable just like the `CacheClient`.
+ */
+
+import { CacheClient } from "../index";
+import { USAGE, parseCliArgs, runCli } from "../src/cli";
+
+const args = process.argv.slice(2);
+
+let url: string | undefined;
+let command: string | undefined;
+try {
+  const parsed = parseCliArgs(args);
+  //Printing the usage does not require a connection
+  if (parsed.help || !parsed.command) {
+    (parsed.help ? console.log : console.error)(USAGE);
+    process.exit(parsed.help ? 0 : 2);
+  }
+  url = parsed.url ?? process.env.REDIS_URL;
+  command = parsed.command;
+} catch (e) {
+  console.error(e instanceof Error ? e.message : e);
+  console.error(USAGE);
+  process.exit(2);
+}
+
+let client: CacheClient;
+try {
+  //Fail right away instead of retrying if the server is not reachable
+  client = await CacheClient.create({ url, autoReconnect: false });
+} catch (e) {
+  console.error(`Could not connect: ${e instanceof Error ? e.message : e}`);
+  process.exit(1);
+}
+
+const abort = new AbortController();
+//Only watch stops gracefully. A listener disables the default exit on Ctrl-C for the other commands
+if (command === "watch") {
+  process.once("SIGINT", () => abort.abort());
+}
+
+try {
+  process.exitCode = await runCli(args, {
+    client,
+    redis: client.client,
+    database: url ? Number(new URL(url).pathname.slice(1)) || 0 : 0,
+    signal: abort.signal,
+  });
+} finally {
+  client.close();
+}
@@ -22,6 +22,154 @@
 
 import { RedisClient } from "bun";
 import { envOptional } from "ensure-config";
+import { Channel, type MessageHandler, Subscription } from "./src/channel";
+import {
+  CircuitBreaker,
+  type CircuitBreakerOptions,
+  type CircuitState,
+  StoreUnavailableError,
+} from "./src/circuitBreaker";
+import {
+  BUILT_IN_CODECS,
+  type Codec,
+  codecName,
+  decodeValue,
+  encodeValue,
+  jsonCodec,
+  msgpackCodec,
+  richCodec,
+  startsWithBytes,
+  toBytes,
+  toText,
+} from "./src/codec";
+import {
+  type CompressionAlgorithm,
+  type CompressionOptions,
+  type CompressionStats,
+  Compressor,
+  type ZlibCompressionLevel,
+  type ZstdCompressionLevel,
+  compressionOf,
+} from "./src/compression";
+import { type EntryMetadata, decodeEntry, encodeEntry } from "./src/entry";
+import {
+  type EarlyRefreshOptions,
+  type Jitter,
+  applyJitter,
+  shouldRefreshEarly,
+} from "./src/expiry";
+import { Lock, LockTimeoutError, acquireLock, releaseLock } from "./src/lock";
+import { MemoryStore, type MemoryStoreOptions } from "./src/memoryStore";
+import {
+  MemoryTier,
+  type MemoryTierOptions,
+  type MemoryTierStats,
+  type TierStats,
+} from "./src/memoryTier";
+import {
+  type CacheEvent,
+  type CacheEventListener,
+  type CacheEventType,
+  type HistogramSnapshot,
+  Metrics,
+  type MetricsOptions,
+  type MetricsSnapshot,
+  PROMETHEUS_CONTENT_TYPE,
+  type PrefixMetrics,
+  renderPrometheus,
+} from "./src/metrics";
+import {
+  type RateLimitAlgorithm,
+  type RateLimitHandlerOptions,
+  type RateLimitResult,
+  RateLimiter,
+  rateLimitHeaders,
+  withRateLimit,
+} from "./src/rateLimit";
+import { RedisStore } from "./src/redisStore";
+import {
+  type RefreshAheadOptions,
+  RefreshScheduler,
+  type WarmResult,
+} from "./src/refreshAhead";
+import {
+  type ScriptArgument,
+  type ScriptFunction,
+  type ScriptOptions,
+  defineScript,
+} from "./src/script";
+import type {
+  CacheStore,
+  MessageListener,
+  ScanOptions,
+  SetArgument,
+  StoreTransaction,
+} from "./src/store";
+import { deleteTaggedKeys, setTaggedKey } from "./src/tags";
+import {
+  type StandardSchema,
+  type TypeGuard,
+  type Validator,
+  validate,
+} from "./src/validation";
+
+export type {
+  CacheEvent,
+  CacheEventListener,
+  CacheEventType,
+  CacheStore,
+  CircuitBreakerOptions,
+  CircuitState,
+  Codec,
+  CompressionAlgorithm,
+  CompressionOptions,
+  CompressionStats,
+  EarlyRefreshOptions,
+  HistogramSnapshot,
+  Jitter,
+  MemoryStoreOptions,
+  MemoryTierOptions,
+  MemoryTierStats,
+  MessageHandler,
+  MessageListener,
+  MetricsOptions,
+  MetricsSnapshot,
+  PrefixMetrics,
+  RateLimitAlgorithm,
+  RateLimitHandlerOptions,
+  RateLimitResult,
+  RefreshAheadOptions,
+  ScanOptions,
+  ScriptArgument,
+  ScriptFunction,
+  ScriptOptions,
+  SetArgument,
+  StandardSchema,
+  StoreTransaction,
+  TierStats,
+  TypeGuard,
+  Validator,
+  WarmResult,
+  ZlibCompressionLevel,
+  ZstdCompressionLevel,
+};
+export {
+  Channel,
+  jsonCodec,
+  Lock,
+  LockTimeoutError,
+  MemoryStore,
+  msgpackCodec,
+  PROMETHEUS_CONTENT_TYPE,
+  RateLimiter,
+  RedisStore,
+  rateLimitHeaders,
+  renderPrometheus,
+  richCodec,
+  StoreUnavailableError,
+  Subscription,
+  withRateLimit,
+};
 
 //Milliseconds conversion factor
 export const SECONDS = 1000;
@@ -31,9 +179,53 @@ export const DAYS = 24 * HOURS; //86400000
 
 //Used to represent a null value
 const NULL_SYMBOL = "%__NULL__%"; //Symbol.for("%__NULL__%");
+const NULL_SYMBOL_BYTES = toBytes(NULL_SYMBOL);
+
+const isNullSymbol = (data: Uint8Array): boolean =>
+  data.length === NULL_SYMBOL_BYTES.length &&
+  startsWithBytes(data, NULL_SYMBOL_BYTES);
+
+//Prepended to the name and message of a cached retrieval error
+const ERROR_PREFIX = "%__ERROR__%";
+const ERROR_PREFIX_BYTES = toBytes(ERROR_PREFIX);
+
+const isErrorMarker = (data: Uint8Array): boolean =>
+  startsWithBytes(data, ERROR_PREFIX_BYTES);
+
+const byteLength = (value: string | Uint8Array): number =>
+  typeof value === "string" ? Buffer.byteLength(value) : value.length;
+
+//Prepended to a tag to form the key of its index set
+const TAG_PREFIX = "%__TAG__%:";
+
+//Appended to a key to guard its retrieval across processes
+const LOCK_SUFFIX = ":%__LOCK__%";
+
+//Number of keys requested per SCAN iteration unless configured otherwise
+const SCAN_BATCH_SIZE = 500;
+
+//Match a literal string within a redis glob style pattern
+const escapeGlob = (value: string) => value.replace(/[*?[\]\\]/g, "\\$&");
+
+//Prepended to the name of a rate limiter to form the keys of its counters
+const RATE_LIMIT_PREFIX = "%__RATE__%:";
+
+//Prepended to the name of a lock acquired with `lock`. Keeps them apart from the locks guarding retrievals
+const USER_LOCK_PREFIX = "%__USER_LOCK__%:";
+
+//Appended to the name of a lock to form the key of its fencing token counter
+const FENCE_SUFFIX = ":%__FENCE__%";
 
 interface SetValueFunction {
   (key: string, value: unknown): Promise<"OK">;
+  /**
+   * Set key to hold the value
+   * @param key The key to set
+   * @param value The value to set
+   * @param options Expiration and tags of the key. Keys are persisted if no duration is given
+   * @returns Promise that resolves with "OK" on success
+   */
+  (key: string, value: unknown, options: SetValueOptions): Promise<"OK">;
   /**
    * Set key to hold the string value with expiration
    * @param key The key to set
@@ -123,6 +315,13 @@ interface SetValueFunction {
 
 export interface BaseCacheClientOptions extends Bun.RedisOptions {
   url?: string;
+  /**
+   * Storage backend of the client. If supplied `url` and the redis options are ignored.
+   *
+   * @default a `RedisStore` connected to `url` or the REDIS_URL env variable
+   * @example const client = await CacheClient.create({ store: new MemoryStore() });
+   */
+  store?: CacheStore;
   getValueOrRetrieveDefaultOptions?: {
     /**
      * The global cache duration for values retrieved via the `getValueOrRetrieve` method.
@@ -130,6 +329,12 @@ export interface BaseCacheClientOptions extends Bun.RedisOptions {
      * @default minutes
      */
     cacheDurationInMs?: number;
+    /**
+     * The global cache duration of null values returned by retrieval functions.
+     * This value can be overwritten per request by passing `nullDuration` to `getValueOrRetrieve`.
+     * @default 1 minute
+     */
+    nullDurationInMs?: number;
     /**
      * Identifier prepended to the key saved in redis.
      *
@@ -137,6 +342,68 @@ export interface BaseCacheClientOptions extends Bun.RedisOptions {
      */
     keyPrefix?: string;
   };
+  /**
+   * Enable an in-process LRU tier in front of redis for `getValueOrRetrieve`.
+   * Changes done via `setValue`, `del` or `getValueOrRetrieve` are broadcasted to other
+   * processes via a pub/sub channel to evict their local copies.
+   */
+  memoryTier?: MemoryTierOptions;
+  /**
+   * Pub/sub channel changes are broadcasted to for processes without a memory tier of their own.
+   * Processes with a memory tier use `memoryTier.invalidationChannel` instead.
+   */
+  invalidationChannel?: string;
+  /**
+   * Codec used to encode non string values. Can be overwritten per call.
+   * @default jsonCodec
+   */
+  codec?: Codec;
+  /**
+   * Additional codecs able to read values. The built in json, rich and msgpack codecs
+   * as well as the configured codec are always registered.
+   */
+  codecs?: Codec[];
+  /**
+   * Compress values exceeding a size threshold. Compressed values are always decompressed
+   * transparently, even if compression is not enabled for the client reading them.
+   */
+  compression?: CompressionOptions;
+  /**
+   * Grouping of keys and histogram buckets of the metrics reported by `metrics()`
+   */
+  metrics?: MetricsOptions;
+  /**
+   * Behavior of `getValueOrRetrieve` and `getManyOrRetrieve` if the store is unavailable.
+   * - failClosed: reject with a `StoreUnavailableError`
+   * - failOpen: call the retrieval function directly and skip writing to the cache
+   *
+   * @default "failClosed"
+   */
+  failureMode?: "failClosed" | "failOpen";
+  /**
+   * Stop sending operations to a failing store for a while. Operations are rejected immediately while
+   * the circuit is open. State changes are reported to `oncircuitchange`.
+   */
+  circuitBreaker?: CircuitBreakerOptions;
+  /**
+   * Concurrency, check interval and backoff of the background refreshes of keys registered via `refreshAhead`
+   */
+  refreshAhead?: RefreshAheadOptions;
+}
+
+export interface CacheStats {
+  /**
+   * Statistics of the in-process tier. Only present if `memoryTier` was configured
+   */
+  memory?: MemoryTierStats;
+  /**
+   * Lookups issued against redis by `getValueOrRetrieve`
+   */
+  redis: TierStats;
+  /**
+   * Compression and decompression done by the client
+   */
+  compression: CompressionStats;
 }
 
 export interface WaitForConnectionCacheClientOptions
@@ -168,7 +435,7 @@ export interface ConnectionCacheClientOptions extends BaseCacheClientOptions {
   onConnection: (err?: Error) => void;
 }
 
-export interface CacheOption {
+export interface CacheOption<T = unknown> {
   /**
    * The cache duration of the key. If not supplied fall backs to 5 Minutes.
    * This option takes precedence over the default defined in the `CacheClient.create()`
@@ -179,6 +446,18 @@ export interface CacheOption {
         unit: "MILLISECONDS" | "SECONDS" | "MINUTES" | "HOURS" | "DAYS";
       }
     | number;
+  /**
+   * Randomize the cache duration so keys written at the same time do not expire at the same time.
+   * Either a fraction of the duration, e.g. 0.1 for ±10%, or a range in milliseconds added to it.
+   */
+  jitter?: Jitter;
+  /**
+   * Recompute values in the background shortly before they expire (XFetch). The probability
+   * of a refresh rises the closer the expiry is and the longer the last retrieval took.
+   * Spreads the recomputation of hot keys instead of all callers missing at once.
+   * Defaults to false
+   */
+  earlyRefresh?: boolean | EarlyRefreshOptions;
   /**
    * Automatically reset the cache duration when a valid value is accessed
    * Defaults to false
@@ -187,15 +466,265 @@ export interface CacheOption {
 
   /**
    * If set to true responses of null returned by the retrieval function are considered to be a valid
-   * return value and will be cached in redis
+   * return value and will be cached in redis for the `nullDuration`
    * Defaults to true
    */
   saveNullResponse?: boolean;
 
+  /**
+   * The cache duration of null values. Independent of `duration` so a missing value is looked up again soon.
+   * Takes precedence over the default defined in the `CacheClient.create()`
+   * Defaults to 1 minute
+   */
+  nullDuration?: CacheOption["duration"];
+
+  /**
+   * Cache errors thrown by the retrieval function for a short time. Following calls reject with a
+   * `CachedRetrievalError` carrying the name and message of the original error instead of calling the
+   * retrieval function again. Errors are not cached for values with `staleIfError`, their stale value is served instead.
+   * Errors of background refreshes are not cached either, the value which is still served is kept.
+   * Defaults to false, the duration defaults to 5 seconds
+   */
+  cacheErrors?: boolean | { duration?: CacheOption["duration"] };
+
   /**
    * If set always request a fresh copy of the data and save it in the cache.
    */
   bypassCache?: boolean;
+
+  /**
+   * Time after the cache duration elapsed in which the expired value is still returned immediately
+   * while a fresh copy is retrieved in the background.
+   */
+  staleWhileRevalidate?: CacheOption["duration"];
+
+  /**
+   * Time after the cache duration elapsed in which the expired value is returned if the
+   * retrieval function throws.
+   */
+  staleIfError?: CacheOption["duration"];
+
+  /**
+   * Tags the value depends on. All keys of a tag can be deleted at once via `invalidateTags`.
+   */
+  tags?: string[];
+
+  /**
+   * Codec used to encode the retrieved value. Takes precedence over the codec of the client.
+   */
+  codec?: Codec;
+
+  /**
+   * Guard the retrieval with a short lived redis lock (`SET NX PX`) so that only a single
+   * process of the fleet runs the retrieval function while the others wait for the fresh value.
+   * Concurrent calls within the same process are always coalesced.
+   * Ignored if `bypassCache` is set.
+   * Defaults to false
+   */
+  distributedLock?:
+    | boolean
+    | {
+        /**
+         * Time after which the lock is released even if the holder did not finish.
+         * @default 10 seconds
+         */
+        lockTimeoutInMs?: number;
+        /**
+         * Interval in which waiting processes check for the fresh value.
+         * @default 50
+         */
+        pollIntervalInMs?: number;
+        /**
+         * Time waiting processes wait for the fresh value before they retrieve it themselves.
+         * @default lockTimeoutInMs
+         */
+        waitTimeoutInMs?: number;
+      };
+  /**
+   * Schema or type guard cached values are checked against before they are returned.
+   * Invalid entries are evicted and retrieved again.
+   */
+  schema?: Validator<T>;
+  /**
+   * Version of the shape of the value. Folded into the key so entries of incompatible versions are never read.
+   */
+  version?: string | number;
+}
+
+export type SetValueOptions = Pick<
+  CacheOption,
+  "duration" | "jitter" | "tags" | "codec"
+>;
+
+export interface GetValueOptions<T = unknown> {
+  /**
+   * Codec able to read the value if it is not registered at the client.
+   */
+  codec?: Codec;
+  /**
+   * Schema or type guard the value is checked against. Invalid values are deleted and null is returned.
+   */
+  schema?: Validator<T>;
+}
+
+export interface NamespaceOptions {
+  /**
+   * Cache duration of values retrieved via `getValueOrRetrieve` within the namespace.
+   * @default the default cache duration of the parent client
+   */
+  defaultDuration?: CacheOption["duration"];
+}
+
+export interface KeyIterationOptions {
+  /**
+   * Number of keys requested per SCAN iteration. Redis treats it as a hint and may return more or fewer keys.
+   * @default 500
+   */
+  count?: number;
+  /**
+   * Only return keys holding a value of the redis type, e.g. "string" or "hash"
+   */
+  type?: string;
+}
+
+export interface DeleteByPatternOptions {
+  /**
+   * Count the matching keys without deleting them
+   */
+  dryRun?: boolean;
+  /**
+   * Number of keys requested per SCAN iteration and removed per UNLINK
+   * @default 500
+   */
+  count?: number;
+}
+
+export interface KeyInfo {
+  /**
+   * Key as saved in the store including the prefix of the client
+   */
+  key: string;
+  /**
+   * Remaining time to live in milliseconds, -1 if the key does not expire
+   */
+  ttlInMs: number;
+  /**
+   * Size of the value as saved in the store
+   */
+  bytes: number;
+  /**
+   * Name of the codec which encoded the value. Values without codec header, like strings, report "json"
+   */
+  codec: string;
+  /**
+   * Algorithm the value is compressed with
+   */
+  compression?: CompressionAlgorithm;
+  /**
+   * Logical expiry of values saved with `staleWhileRevalidate` or `staleIfError`
+   */
+  expiresAt?: number;
+  /**
+   * "null" for null values and "error" for errors cached by `getValueOrRetrieve`
+   */
+  kind: "value" | "null" | "error";
+  /**
+   * Cached error of entries of the kind "error"
+   */
+  error?: CachedRetrievalError;
+}
+
+export interface LockOptions {
+  /**
+   * Time after which the lock is released even if the holder did not release it
+   * @default 10 seconds
+   */
+  ttl?: CacheOption["duration"];
+  /**
+   * Time to wait for a lock held by someone else before a `LockTimeoutError` is thrown. 0 tries once.
+   * @default ttl
+   */
+  waitTimeout?: CacheOption["duration"];
+  /**
+   * Interval in milliseconds in which acquiring a held lock is retried
+   * @default 50
+   */
+  retryDelay?: number;
+  /**
+   * Extend the lock by its ttl every third of the ttl until it is released. Stops once the lock
+   * was lost, which is reported to `onlost` of the lock.
+   * Defaults to false
+   */
+  autoExtend?: boolean;
+}
+
+export interface RateLimiterOptions {
+  /**
+   * @default "fixedWindow"
+   */
+  algorithm?: RateLimitAlgorithm;
+  /**
+   * Maximum number of requests per window. The capacity of the bucket for the token bucket algorithm
+   */
+  limit: number;
+  /**
+   * Length of the window. The token bucket refills `limit` tokens per window
+   */
+  window: CacheOption["duration"];
+}
+
+//Tags are maintained by scripts which can not be part of a transaction
+export type TransactionSetValueOptions = Pick<
+  CacheOption,
+  "duration" | "codec"
+>;
+
+export interface TransactionOptions {
+  /**
+   * Keys watched for changes. If one of them is changed by another client before the transaction
+   * is executed, the transaction is aborted and the callback is run again.
+   */
+  watch?: string[];
+  /**
+   * Number of times the callback is run again after a watched key changed
+   * @default 5
+   */
+  retries?: number;
+}
+
+/**
+ * Thrown if a transaction was aborted because a watched key changed
+ */
+export class TransactionAbortedError extends Error {
+  constructor() {
+    super("Transaction aborted because a watched key changed");
+    this.name = "TransactionAbortedError";
+  }
+}
+
+/**
+ * Rejected by `getValueOrRetrieve` while an error of the retrieval function is cached via `cacheErrors`
+ */
+export class CachedRetrievalError extends Error {
+  constructor(
+    message: string,
+    /**
+     * Name of the error thrown by the retrieval function
+     */
+    readonly originalName: string
+  ) {
+    super(message);
+    this.name = "CachedRetrievalError";
+  }
+}
+
+//Client internals used to encode and decode the commands of a transaction
+interface TransactionContext {
+  key(key: string): string;
+  serialize(value: unknown, codec?: Codec): string | Uint8Array;
+  decode(stored: Uint8Array, rawOrOptions?: boolean | GetValueOptions): unknown;
+  cacheTimeInMs(duration: CacheOption["duration"]): number;
+  invalidate(key: string): void;
 }
 
 // interface GetValueFromCache {
@@ -208,6 +737,100 @@ export interface CacheOption {
 
 export type RetrievalFunction<T> = () => Promise<T | null> | T;
 
+/**
+ * Retrieve the values of all keys missing in the cache at once
+ * @returns the values in the order of the missing keys
+ */
+export type BatchRetrievalFunction<K, T> = (
+  missingKeys: K[]
+) => Promise<(T | null)[]> | (T | null)[];
+
+export interface WrapOptions<Args extends unknown[], T = unknown>
+  extends CacheOption<T> {
+  /**
+   * Compute the cache key from the arguments. Keys are prefixed like the keys of `getValueOrRetrieve`.
+   * @default the name followed by the arguments. Object arguments are encoded as JSON
+   */
+  key?: (...args: Args) => string | unknown[];
+  /**
+   * Name identifying the cached function in the default key. Names of functions are not used as they
+   * repeat across modules and are lost to minification. Either `key` or `name` is required by `wrap`.
+   * @default the name of the class and the method for the `cached` decorator
+   */
+  name?: string;
+}
+
+/**
+ * Function whose results are cached by `CacheClient.wrap`
+ */
+export type WrappedFunction<Args extends unknown[], T, This = unknown> = ((
+  this: This,
+  ...args: Args
+) => Promise<T>) & {
+  /**
+   * Delete the cached result of the arguments
+   * @returns Promise that resolves with the number of keys removed
+   */
+  invalidate(...args: Args): Promise<number>;
+};
+
+export interface RefreshAheadKeyOptions<T> extends CacheOption<T> {
+  /**
+   * Refresh the value once its remaining cache duration falls below this threshold
+   * @default a fifth of the cache duration
+   */
+  refreshBefore?: CacheOption["duration"];
+}
+
+export interface CacheDefinitionOptions<Args, T> extends CacheOption<T> {
+  /**
+   * Unique name of the cache. Prepended to the keys
+   */
+  name: string;
+  /**
+   * Compute the key of the arguments. Keys are prefixed with the name and joined like the keys of `getValueOrRetrieve`
+   */
+  key: (args: Args) => string | unknown[];
+  /**
+   * Retrieve the value of the arguments if it is not cached
+   */
+  retrieve: (args: Args) => Promise<T | null> | T | null;
+}
+
+export interface CacheDefinition<Args, T> {
+  readonly name: string;
+  /**
+   * Options the values are cached with
+   */
+  readonly options: Readonly<CacheOption<T>>;
+  /**
+   * Computed key of the arguments
+   */
+  key(args: Args): string;
+  /**
+   * Read the cached value or retrieve it if it is missing
+   */
+  get(args: Args): Promise<T | null>;
+  /**
+   * Read the cached value without retrieving it
+   * @returns Promise that resolves with null if the value is not cached or expired
+   */
+  peek(args: Args): Promise<T | null>;
+  /**
+   * Cache a value. Saved like a retrieved value
+   */
+  set(args: Args, value: T | null): Promise<void>;
+  /**
+   * Delete the cached value
+   * @returns Promise that resolves with the number of keys removed
+   */
+  invalidate(args: Args): Promise<number>;
+  /**
+   * Retrieve the value and cache it regardless of the cached value
+   */
+  refresh(args: Args): Promise<T | null>;
+}
+
 /**
  * A client for interacting with a Redis-backed cache.
  *
@@ -227,24 +850,60 @@ export type RetrievalFunction<T> = () => Promise<T | null> | T;
  * @public
  */
 export class CacheClient {
-  public client: RedisClient;
-  private url: string;
+  public store: CacheStore;
 
   //Get value or retrieve default values
   private getValueOrRetrieveCacheDurationInMs: number;
+  private getValueOrRetrieveNullDurationInMs: number;
   private getValueOrRetrieveKeyPrefix: string;
 
+  //Prefix of namespaced clients applied to the keys of every method
+  private keyPrefix = "";
+  //Namespaced clients share the connection of the client they were created from
+  private ownsConnection = true;
+
+  private codec: Codec;
+  private codecs: Map<string, Codec>;
+  private compressor: Compressor;
+
+  //In-process tier
+  private memoryTier?: MemoryTier;
+  private invalidationChannel?: string;
+  private unsubscribeInvalidations?: () => Promise<void>;
+  private instanceId = crypto.randomUUID();
+
+  private redisHits = 0;
+  private redisMisses = 0;
+
+  private metricsCollector: Metrics;
+
+  private failOpen: boolean;
+  private circuitBreaker?: CircuitBreaker;
+  private refreshScheduler: RefreshScheduler;
+  private listeners = new Map<CacheEventType, Set<CacheEventListener>>();
+
+  //Retrievals currently in flight by computed key
+  private pendingRetrievals = new Map<string, Promise<unknown>>();
+  //Caches created with `define` by their prefixed name
+  private cacheDefinitions = new Map<
+    string,
+    CacheDefinition<unknown, unknown>
+  >();
+
+  private transactionContext: TransactionContext = {
+    key: (key) => this.keyPrefix + key,
+    serialize: (value, codec) => this.serialize(value, codec),
+    decode: (stored, rawOrOptions) => this.decodeStored(stored, rawOrOptions),
+    cacheTimeInMs: (duration) => this.cacheTimeInMS(duration),
+    invalidate: (key) => this.invalidateMemoryTier(key),
+  };
+
   private constructor(options?: BaseCacheClientOptions) {
-    if (options?.url) {
-      this.url = options.url;
+    if (options?.store) {
+      this.store = options.store;
     } else {
-      const url = envOptional("REDIS_URL");
-      if (!url) {
-        throw new Error(
-          "Either supply a url to the cache client constructor or set the REDIS_URL env variable"
-        );
-      }
-      this.url = url;
+      const url = options?.url ?? CacheClient.urlFromEnv();
+      this.store = CacheClient.createRedisStore(url, options);
     }
 
     if (options?.getValueOrRetrieveDefaultOptions?.cacheDurationInMs) {
@@ -254,6 +913,10 @@ export class CacheClient {
       this.getValueOrRetrieveCacheDurationInMs = 5 * MINUTES;
     }
 
+    this.getValueOrRetrieveNullDurationInMs =
+      options?.getValueOrRetrieveDefaultOptions?.nullDurationInMs ??
+      1 * MINUTES;
+
     if (options?.getValueOrRetrieveDefaultOptions?.keyPrefix) {
       this.getValueOrRetrieveKeyPrefix =
         options.getValueOrRetrieveDefaultOptions.keyPrefix;
@@ -261,12 +924,86 @@ export class CacheClient {
       this.getValueOrRetrieveKeyPrefix = "";
     }
 
-    if (options) {
-      const { url, ...restOptions } = options;
-      this.client = new RedisClient(this.url, restOptions);
+    this.codec = options?.codec ?? jsonCodec;
+    this.codecs = new Map(
+      [...BUILT_IN_CODECS, ...(options?.codecs ?? []), this.codec].map(
+        (codec) => [codec.name, codec]
+      )
+    );
+
+    this.compressor = new Compressor(options?.compression);
+    this.metricsCollector = new Metrics(
+      options?.metrics,
+      this.getValueOrRetrieveKeyPrefix
+    );
+
+    this.failOpen = options?.failureMode === "failOpen";
+    this.refreshScheduler = new RefreshScheduler(
+      options?.refreshAhead,
+      (key, e) => {
+        this.emitError(key, e);
+        console.warn(`Could not refresh key ${key} ahead ${e}`);
+      }
+    );
+    if (options?.circuitBreaker) {
+      this.circuitBreaker = new CircuitBreaker(options.circuitBreaker);
+    }
+
+    if (options?.memoryTier) {
+      this.memoryTier = new MemoryTier(options.memoryTier);
+      if (options.memoryTier.invalidationChannel !== false) {
+        this.invalidationChannel =
+          options.memoryTier.invalidationChannel ?? "bun-cache:invalidate";
+      }
     } else {
-      this.client = new RedisClient(this.url);
+      //Writers have to notify the memory tiers of other processes
+      this.invalidationChannel = options?.invalidationChannel;
+    }
+  }
+
+  private static urlFromEnv(): string {
+    const url = envOptional("REDIS_URL");
+    if (!url) {
+      throw new Error(
+        "Either supply a url to the cache client constructor or set the REDIS_URL env variable"
+      );
+    }
+    return url;
+  }
+
+  private static createRedisStore(
+    url: string,
+    options?: BaseCacheClientOptions
+  ): RedisStore {
+    if (!options) {
+      return new RedisStore(new RedisClient(url));
+    }
+    const {
+      url: _url,
+      store,
+      memoryTier,
+      invalidationChannel,
+      codec,
+      codecs,
+      compression,
+      metrics,
+      failureMode,
+      circuitBreaker,
+      refreshAhead,
+      ...restOptions
+    } = options;
+    return new RedisStore(new RedisClient(url, restOptions));
+  }
+
+  /**
+   * The low level bun redis client.
+   * @throws if the client is not backed by a `RedisStore`
+   */
+  get client(): RedisClient {
+    if (!(this.store instanceof RedisStore)) {
+      throw new Error("The redis client is only available for a RedisStore");
     }
+    return this.store.client;
   }
 
   static create(
@@ -283,8 +1020,9 @@ export class CacheClient {
     ) {
       const instance = new CacheClient(options);
 
-      instance.client
+      instance.store
         .connect()
+        .then(() => instance.subscribeInvalidations())
         .then(() => {
           options.onConnection();
         })
@@ -296,172 +1034,1784 @@ export class CacheClient {
     }
 
     const instance = new CacheClient(options);
-    return instance.client.connect().then(() => {
-      return instance;
-    });
+    return instance.store
+      .connect()
+      .then(() => instance.subscribeInvalidations())
+      .then(() => {
+        return instance;
+      });
   }
 
   /**
-   * Sets a value serializing non-string values as JSON.
-   *
-   * @param key - The key under which the value will be stored.
-   * @param value - The value to store. If not a string, it will be stringified as JSON.
-   * @param options - Additional options to pass to the client's set method (such as expiration time or flags).
-   * @returns The result of the underlying client's set operation.
+   * Listen for keys changed by other processes and evict them from the memory tier
    */
-  setValue: SetValueFunction = (
-    key,
-    value,
-    ...options: (string | number)[]
-  ) => {
-    // lastArg?: number
-    if (typeof value !== "string") {
-      //@ts-expect-error typings are impossible to implement cleanly
-      return this.client.set(key, JSON.stringify(value), ...options);
-    }
-
-    if (options) {
-      //@ts-expect-error typings are impossible to implement cleanly
-      return this.client.set(key, value as string, ...options);
-      // biome-ignore lint/style/noUselessElse: <explanation>
-    } else {
-      return this.client.set(key, value as string);
+  private async subscribeInvalidations() {
+    //Other processes can only be reached through redis
+    if (
+      !this.memoryTier ||
+      !this.invalidationChannel ||
+      !(this.store instanceof RedisStore)
+    ) {
+      return;
     }
+    //The store resubscribes after reconnects
+    this.unsubscribeInvalidations = await this.store.subscribe(
+      this.invalidationChannel,
+      (message) => {
+        try {
+          const { origin, key, prefix } = JSON.parse(message) as {
+            origin: string;
+            key?: string;
+            prefix?: string;
+          };
+          if (origin === this.instanceId) {
+            return;
+          }
+          if (prefix !== undefined) {
+            this.memoryTier?.deletePrefix(prefix);
+          } else if (key !== undefined) {
+            this.memoryTier?.delete(key);
+          }
+        } catch {
+          console.warn(
+            `Received malformed cache invalidation message ${message}`
+          );
+        }
+      }
+    );
+  }
+
+  /**
+   * Evict a key from the local memory tier if any and notify other processes
+   */
+  private invalidateMemoryTier(key: string) {
+    this.memoryTier?.delete(key);
+    this.publishInvalidation({ key });
+  }
+
+  /**
+   * Evict all keys starting with the prefix from the local memory tier if any and notify other processes
+   */
+  private invalidateMemoryTierPrefix(prefix: string) {
+    this.memoryTier?.deletePrefix(prefix);
+    this.publishInvalidation({ prefix });
+  }
+
+  private publishInvalidation(target: { key: string } | { prefix: string }) {
+    if (this.invalidationChannel && this.store instanceof RedisStore) {
+      const message = JSON.stringify({ origin: this.instanceId, ...target });
+      this.store.client
+        .publish(this.invalidationChannel, message)
+        .catch((e) => {
+          console.warn(`Could not publish cache invalidation ${message} ${e}`);
+        });
+    }
+  }
+
+  /**
+   * Sets a value serializing non-string values as JSON.
+   *
+   * @param key - The key under which the value will be stored.
+   * @param value - The value to store. If not a string, it will be stringified as JSON.
+   * @param options - Additional options to pass to the client's set method (such as expiration time or flags).
+   * @returns The result of the underlying client's set operation.
+   *
+   * @remarks
+   * - Non string values are encoded with the codec of the client or the codec passed in the options.
+   */
+  setValue: SetValueFunction = (
+    key,
+    value,
+    ...options: (string | number | SetValueOptions)[]
+  ): Promise<"OK"> => {
+    const prefixedKey = this.keyPrefix + key;
+    const [setValueOptions] = options;
+    if (typeof setValueOptions === "object") {
+      return this.setValueWithOptions(
+        prefixedKey,
+        this.serialize(value, setValueOptions.codec),
+        setValueOptions
+      );
+    }
+
+    const serialized = this.serialize(value);
+    const start = performance.now();
+
+    //Typings of the flags are impossible to implement cleanly
+    const result = this.store.set(
+      prefixedKey,
+      serialized,
+      ...(options as SetArgument[])
+    ) as Promise<"OK">;
+
+    return result.then((res) => {
+      this.emitSet(prefixedKey, serialized, start);
+      this.invalidateMemoryTier(prefixedKey);
+      return res;
+    });
+  };
+
+  /**
+   * Strings are saved as is, all other values are encoded with the codec. Large values are compressed
+   */
+  private serialize(value: unknown, codec?: Codec): string | Uint8Array {
+    if (typeof value === "string") {
+      return this.compressor.compress(value);
+    }
+    return this.compressor.compress(encodeValue(codec ?? this.codec, value));
+  }
+
+  /**
+   * Unlike `serialize` strings are encoded with the codec as well, so every value decodes to its original type
+   */
+  private encode(value: unknown): string | Uint8Array {
+    return this.compressor.compress(encodeValue(this.codec, value));
+  }
+
+  private deserialize<T>(data: Uint8Array, codec?: Codec): T {
+    if (codec && !this.codecs.has(codec.name)) {
+      return decodeValue(
+        data,
+        new Map([...this.codecs, [codec.name, codec]])
+      ) as T;
+    }
+    return decodeValue(data, this.codecs) as T;
+  }
+
+  private async setValueWithOptions(
+    key: string,
+    serialized: string | Uint8Array,
+    options: SetValueOptions
+  ): Promise<"OK"> {
+    let ttlInMs = -1;
+    const start = performance.now();
+    if (options.duration) {
+      ttlInMs = applyJitter(
+        this.cacheTimeInMS(options.duration),
+        options.jitter
+      );
+    }
+    await this.storeValue(key, serialized, ttlInMs, options.tags);
+    this.emitSet(key, serialized, start);
+    this.invalidateMemoryTier(key);
+    return "OK";
+  }
+
+  /**
+   * Save a value. Tagged values are saved and added to the index of their tags atomically
+   * @param ttlInMs - Lifetime of the value, -1 to persist it
+   */
+  private async storeValue(
+    key: string,
+    value: string | Uint8Array,
+    ttlInMs: number,
+    tags?: string[]
+  ) {
+    if (tags?.length) {
+      await setTaggedKey(
+        this.store,
+        tags.map((tag) => this.computeTagKey(tag)),
+        key,
+        value,
+        ttlInMs
+      );
+    } else if (ttlInMs >= 0) {
+      await this.store.set(key, value, "PX", Math.ceil(ttlInMs));
+    } else {
+      await this.store.set(key, value);
+    }
+  }
+
+  private computeTagKey(tag: string): string {
+    return this.getValueOrRetrieveKeyPrefix + TAG_PREFIX + tag;
+  }
+
+  /**
+   * Atomically delete every key tagged with one of the tags and remove them from the tag index.
+   *
+   * @param tags - The tags to invalidate.
+   * @returns Promise that resolves with the number of deleted keys
+   */
+  async invalidateTags(...tags: string[]): Promise<number> {
+    const deleted = await deleteTaggedKeys(
+      this.store,
+      tags.map((tag) => this.computeTagKey(tag))
+    );
+    for (const key of deleted) {
+      this.invalidateMemoryTier(key);
+    }
+    return deleted.length;
+  }
+
+  /**
+   * Retrieves a value from the cache by its key.
+   *
+   * @param {string} key - The key to retrieve the value for.
+   * @param {boolean | GetValueOptions} [rawOrOptions] - If true, returns the raw string value saved in redis without parsing. If false or omitted, attempts to decode the value with the codec which wrote it. Values without codec header are parsed as JSON. Values that could be deserialized as numeric values will be returned as such even if they have been saved as strings.
+   * @returns {Promise<T | string | null>} A promise that resolves to the parsed value, or null if the key does not exist or the client is not connected.
+   *
+   * @remarks
+   * - If the value is not found or the client is not connected, returns null.
+   */
+  getValue: GetValueFunction = async <T extends object>(
+    key: string,
+    rawOrOptions?: boolean | GetValueOptions
+  ): Promise<T | string | null> => {
+    if (this.store.connected) {
+      const prefixedKey = this.keyPrefix + key;
+      const start = performance.now();
+      const stored = await this.store.get(prefixedKey);
+      this.emitLookup(prefixedKey, stored, start);
+      if (stored === null) {
+        return stored;
+      }
+      const value = this.decodeStored<T>(stored, rawOrOptions);
+      if (typeof rawOrOptions !== "object" || !rawOrOptions.schema) {
+        return value;
+      }
+      const result = await validate(rawOrOptions.schema, value);
+      if (!result.success) {
+        await this.evict(prefixedKey);
+        return null;
+      }
+      return result.value as T;
+    }
+    return null;
   };
 
   /**
-   * Retrieves a value from the cache by its key.
+   * Retrieves multiple values in a single round trip.
+   * The keys are read with pipelined GETs rather than MGET, whose text replies would corrupt binary values.
+   *
+   * @param keys - The keys to retrieve the values for.
+   * @param options - Codec able to read the values if it is not registered at the client.
+   * @returns Promise that resolves with the decoded values in the order of the keys, null for missing keys
+   */
+  async getValues<T>(
+    keys: string[],
+    options?: GetValueOptions
+  ): Promise<(T | null)[]> {
+    if (!this.store.connected) {
+      return keys.map(() => null);
+    }
+    const prefixedKeys = keys.map((key) => this.keyPrefix + key);
+    const start = performance.now();
+    const values = await this.store.mget(prefixedKeys);
+    return values.map((stored, i) => {
+      this.emitLookup(prefixedKeys[i] as string, stored, start);
+      return stored === null
+        ? null
+        : (this.decodeStored<T>(stored, options) as T);
+    });
+  }
+
+  /**
+   * Sets multiple values in a single round trip. Values are encoded like `setValue` does.
+   *
+   * @param entries - Key value pairs to set.
+   * @param duration - Expiration of the keys. Keys are persisted if omitted.
+   * @returns Promise that resolves with "OK" once all values are set
+   */
+  async setValues(
+    entries: Record<string, unknown> | Iterable<readonly [string, unknown]>,
+    duration?: CacheOption["duration"]
+  ): Promise<"OK"> {
+    const pairs = (
+      Symbol.iterator in entries
+        ? [...(entries as Iterable<readonly [string, unknown]>)]
+        : Object.entries(entries)
+    ).map(([key, value]) => [this.keyPrefix + key, value] as const);
+    const pipeline = this.store.pipeline();
+    const serialized = pairs.map(([key, value]) => {
+      const data = this.serialize(value);
+      if (duration) {
+        pipeline.set(key, data, "PX", Math.ceil(this.cacheTimeInMS(duration)));
+      } else {
+        pipeline.set(key, data);
+      }
+      return data;
+    });
+    const start = performance.now();
+    await pipeline.exec();
+    pairs.forEach(([key], i) => {
+      this.emitSet(key, serialized[i] as string | Uint8Array, start);
+      this.invalidateMemoryTier(key);
+    });
+    return "OK";
+  }
+
+  /**
+   * Saves an object as a hash so single fields can be read and updated without transferring the whole object.
+   * Every field is encoded with the codec, strings included, so fields decode to their original type.
+   * Integers are saved as plain text so they can be incremented.
+   * Replaces all fields of an existing object.
+   *
+   * @param key - The key under which the object will be stored.
+   * @param object - The fields to store. Fields holding undefined are skipped.
+   * @param duration - Expiration of the object. The object is persisted if omitted.
+   * @returns Promise that resolves with "OK" once the object is saved
+   */
+  async setObject(
+    key: string,
+    object: object,
+    duration?: CacheOption["duration"]
+  ): Promise<"OK"> {
+    const prefixedKey = this.keyPrefix + key;
+    const fields = this.serializeFields(object);
+    const transaction = this.store.multi().del(prefixedKey);
+    if (Object.keys(fields).length) {
+      transaction.hset(prefixedKey, fields);
+    }
+    if (duration) {
+      transaction.pexpire(prefixedKey, this.cacheTimeInMS(duration));
+    }
+    await transaction.exec();
+    this.invalidateMemoryTier(prefixedKey);
+    return "OK";
+  }
+
+  /**
+   * Reads an object saved with `setObject`.
+   *
+   * @param key - The key of the object.
+   * @param fields - Only read these fields. All fields are read if omitted.
+   * @returns Promise that resolves with the decoded fields, missing fields are omitted. Null if the object or all requested fields do not exist
+   */
+  getObject<T extends object>(key: string): Promise<T | null>;
+  getObject<T extends object, K extends keyof T & string>(
+    key: string,
+    fields: K[]
+  ): Promise<Partial<Pick<T, K>> | null>;
+  async getObject(
+    key: string,
+    fields?: string[]
+  ): Promise<Record<string, unknown> | null> {
+    const prefixedKey = this.keyPrefix + key;
+    let entries: [string, Uint8Array | null][];
+    if (fields) {
+      if (!fields.length) {
+        return null;
+      }
+      const values = await this.store.hmget(prefixedKey, fields);
+      entries = fields.map((field, i) => [field, values[i] ?? null]);
+    } else {
+      entries = Object.entries(await this.store.hgetall(prefixedKey));
+    }
+
+    const object: Record<string, unknown> = {};
+    let found = false;
+    for (const [field, stored] of entries) {
+      if (stored !== null) {
+        object[field] = this.decodeStored(stored);
+        found = true;
+      }
+    }
+    return found ? object : null;
+  }
+
+  /**
+   * Updates fields of an object saved with `setObject`. Other fields and the expiration are kept.
+   * Missing objects are created without expiration.
+   *
+   * @param key - The key of the object.
+   * @param fields - The fields to update. Fields holding undefined are skipped.
+   * @returns Promise that resolves with "OK" once the fields are updated
+   */
+  async patchObject<T extends object>(
+    key: string,
+    fields: Partial<T>
+  ): Promise<"OK"> {
+    const serialized = this.serializeFields(fields);
+    if (Object.keys(serialized).length) {
+      await this.store.hset(this.keyPrefix + key, serialized);
+    }
+    return "OK";
+  }
+
+  /**
+   * Atomically increments an integer field of an object saved with `setObject`. Missing fields start at 0,
+   * missing objects are created without expiration.
+   *
+   * @param key - The key of the object.
+   * @param field - The field to increment.
+   * @param by - The increment. Negative to decrement.
+   * @returns Promise that resolves with the value of the field after the increment
+   */
+  incrementField(key: string, field: string, by = 1): Promise<number> {
+    return this.store.hincrby(this.keyPrefix + key, field, by);
+  }
+
+  private serializeFields(object: object): Record<string, string | Uint8Array> {
+    const fields: Record<string, string | Uint8Array> = {};
+    for (const [field, value] of Object.entries(object)) {
+      if (value === undefined) {
+        continue;
+      }
+      fields[field] = Number.isInteger(value)
+        ? (value as number).toString()
+        : this.encode(value);
+    }
+    return fields;
+  }
+
+  private decodeStored<T>(
+    stored: Uint8Array,
+    rawOrOptions?: boolean | GetValueOptions
+  ): T | string {
+    const value = this.compressor.decompress(stored);
+    if (rawOrOptions === true) {
+      return toText(value);
+    }
+    const { payload } = decodeEntry(value);
+    const codec =
+      typeof rawOrOptions === "object" ? rawOrOptions.codec : undefined;
+
+    //Values carrying a codec header are never plain strings
+    if (codecName(payload) !== jsonCodec.name) {
+      return this.deserialize<T>(payload, codec);
+    }
+    //eventually use he/decode for html values.
+    try {
+      return this.deserialize<T>(payload, codec);
+    } catch {
+      // throw new Error(`Failed to decode value for redis key ${key}`);
+      return toText(payload);
+    }
+  }
+
+  private cacheTimeInMS(duration?: CacheOption["duration"]): number {
+    if (!duration) {
+      return this.getValueOrRetrieveCacheDurationInMs;
+    }
+
+    if (typeof duration === "number") {
+      return duration;
+    }
+    switch (duration.unit) {
+      case "MILLISECONDS":
+        return duration.value;
+      case "SECONDS":
+        return SECONDS * duration.value;
+      case "MINUTES":
+        return MINUTES * duration.value;
+      case "HOURS":
+        return HOURS * duration.value;
+      case "DAYS":
+        return HOURS * duration.value;
+    }
+  }
+
+  async getValueOrRetrieve<T>(
+    key: string | unknown[],
+    retrieve: RetrievalFunction<T>,
+    options?: CacheOption<T>
+  ): Promise<T | null> {
+    const computedKey = this.computeCacheKey(key, options?.version);
+
+    const cacheTimeInMs = this.cacheTimeInMS(options?.duration);
+
+    //Stale value which may be served if the retrieval fails
+    let staleIfErrorValue: { value: T | null } | undefined;
+
+    if (options?.bypassCache !== true) {
+      const start = performance.now();
+      const memoryValue = this.memoryTier?.get(computedKey);
+      const memoryHit = memoryValue !== undefined;
+      let value = memoryHit ? toBytes(memoryValue) : null;
+
+      if (!memoryHit) {
+        let stored: Uint8Array | null;
+        try {
+          stored = await this.guard(() => this.store.get(computedKey));
+        } catch (e) {
+          if (!this.failOpen) {
+            throw e;
+          }
+          this.emitError(computedKey, e);
+          return this.retrieveUncached(computedKey, retrieve);
+        }
+        if (stored !== null) {
+          value = this.compressor.decompress(stored);
+          this.redisHits++;
+          this.memoryTier?.set(computedKey, value, cacheTimeInMs);
+        } else {
+          this.redisMisses++;
+        }
+      }
+
+      if (value && isErrorMarker(value)) {
+        //Markers are ignored by callers which did not opt in
+        if (options?.cacheErrors) {
+          this.emit({
+            type: "hit",
+            key: computedKey,
+            durationInMs: performance.now() - start,
+            bytes: value.length,
+            tier: memoryHit ? "memory" : "redis",
+          });
+          throw decodeCachedError(value);
+        }
+        value = null;
+      }
+
+      if (
+        value?.length &&
+        (!isNullSymbol(value) || options?.saveNullResponse !== false)
+      ) {
+        const { payload, metadata } = decodeEntry(value);
+        const parsed = await this.parseValidated<T>(
+          computedKey,
+          payload,
+          options
+        );
+        const staleForMs = metadata ? Date.now() - metadata.expiresAt : -1;
+        const hit: CacheEvent = {
+          type: "hit",
+          key: computedKey,
+          durationInMs: performance.now() - start,
+          bytes: value.length,
+          tier: memoryHit ? "memory" : "redis",
+        };
+
+        if (parsed && staleForMs < 0) {
+          this.emit(hit);
+
+          //Renew expiration time. Memory hits do not reach redis and therefore do not renew
+          if (options?.renewCacheDurationOnAccess && !memoryHit) {
+            await this.renewCacheDuration(
+              computedKey,
+              payload,
+              metadata,
+              options,
+              cacheTimeInMs
+            ).catch((e) => {
+              this.emitError(computedKey, e);
+              console.warn(`Could not renew cache duration of key ${key} ${e}`);
+            });
+          }
+
+          //Recompute shortly before the expiry while the valid value is served
+          if (
+            options?.earlyRefresh &&
+            metadata?.retrievalTimeInMs !== undefined &&
+            shouldRefreshEarly(
+              metadata.expiresAt,
+              metadata.retrievalTimeInMs,
+              typeof options.earlyRefresh === "object"
+                ? options.earlyRefresh
+                : undefined
+            )
+          ) {
+            this.retrieveCoalesced(
+              computedKey,
+              retrieve,
+              options,
+              cacheTimeInMs,
+              true
+            ).catch((e) => {
+              console.warn(`Could not refresh key ${key} early ${e}`);
+            });
+          }
+
+          //These are all wrapping
+          return parsed.value;
+        }
+
+        if (
+          parsed &&
+          staleForMs < this.staleTimeInMs(options?.staleWhileRevalidate)
+        ) {
+          this.emit(hit);
+          this.retrieveCoalesced(
+            computedKey,
+            retrieve,
+            options,
+            cacheTimeInMs,
+            true
+          ).catch((e) => {
+            console.warn(`Could not revalidate stale key ${key} ${e}`);
+          });
+          return parsed.value;
+        }
+
+        if (parsed && staleForMs < this.staleTimeInMs(options?.staleIfError)) {
+          staleIfErrorValue = parsed;
+        }
+      }
+
+      this.emit({
+        type: "miss",
+        key: computedKey,
+        durationInMs: performance.now() - start,
+        bytes: 0,
+      });
+    }
+
+    //Value needs to be retrieved
+    if (staleIfErrorValue === undefined) {
+      return this.retrieveCoalesced(
+        computedKey,
+        retrieve,
+        options,
+        cacheTimeInMs
+      );
+    }
+
+    try {
+      return await this.retrieveCoalesced(
+        computedKey,
+        retrieve,
+        options,
+        cacheTimeInMs
+      );
+    } catch (e) {
+      console.warn(`Serving stale value of key ${key} after error ${e}`);
+      return staleIfErrorValue.value;
+    }
+  }
+
+  /**
+   * Batched variant of `getValueOrRetrieve`. All keys are looked up in a single round trip and the
+   * retrieval function is called once with the keys missing in the cache. Retrieved values are cached
+   * individually, null values are handled like `getValueOrRetrieve` does.
+   * Expired entries are retrieved again, stale values are not served.
+   *
+   * @param keys - The keys to look up. Keys are prefixed and joined like the key of `getValueOrRetrieve`.
+   * @param retrieveMissing - Retrieves the values of the missing keys in the order of the keys passed to it.
+   * @returns Promise that resolves with the values in the order of the keys
+   */
+  async getManyOrRetrieve<K extends string | unknown[], T>(
+    keys: K[],
+    retrieveMissing: BatchRetrievalFunction<K, T>,
+    options?: CacheOption<T>
+  ): Promise<(T | null)[]> {
+    const computedKeys = keys.map((key) =>
+      this.computeCacheKey(key, options?.version)
+    );
+    const cacheTimeInMs = this.cacheTimeInMS(options?.duration);
+
+    const results = new Map<string, T | null>();
+
+    if (options?.bypassCache !== true) {
+      const values = new Map<string, Uint8Array>();
+      const storeKeys: string[] = [];
+      const renewals: Promise<void>[] = [];
+      const start = performance.now();
+
+      for (const computedKey of new Set(computedKeys)) {
+        const memoryValue = this.memoryTier?.get(computedKey);
+        if (memoryValue !== undefined) {
+          values.set(computedKey, toBytes(memoryValue));
+        } else {
+          storeKeys.push(computedKey);
+        }
+      }
+
+      const fromStore = new Set(storeKeys);
+      let stored: (Uint8Array | null)[] = [];
+      if (storeKeys.length) {
+        try {
+          stored = await this.guard(() => this.store.mget(storeKeys));
+        } catch (e) {
+          if (!this.failOpen) {
+            throw e;
+          }
+          //Treat all keys as missing. Writes are skipped by the circuit breaker or fail silently
+          for (const computedKey of storeKeys) {
+            this.emitError(computedKey, e);
+          }
+        }
+      }
+      storeKeys.forEach((computedKey, i) => {
+        const value = stored[i];
+        if (value === null || value === undefined) {
+          this.redisMisses++;
+          return;
+        }
+        this.redisHits++;
+        const decompressed = this.compressor.decompress(value);
+        this.memoryTier?.set(computedKey, decompressed, cacheTimeInMs);
+        values.set(computedKey, decompressed);
+      });
+
+      for (const [computedKey, value] of values) {
+        if (
+          !value.length ||
+          isErrorMarker(value) ||
+          (isNullSymbol(value) && options?.saveNullResponse === false)
+        ) {
+          continue;
+        }
+        const { payload, metadata } = decodeEntry(value);
+        if (metadata && metadata.expiresAt <= Date.now()) {
+          continue;
+        }
+        //Memory hits do not reach redis and therefore do not renew
+        if (options?.renewCacheDurationOnAccess && fromStore.has(computedKey)) {
+          renewals.push(
+            this.renewCacheDuration(
+              computedKey,
+              payload,
+              metadata,
+              options,
+              cacheTimeInMs
+            ).catch((e) => {
+              this.emitError(computedKey, e);
+              console.warn(
+                `Could not renew cache duration of key ${computedKey} ${e}`
+              );
+            })
+          );
+        }
+        const parsed = await this.parseValidated<T>(
+          computedKey,
+          payload,
+          options
+        );
+        if (parsed) {
+          results.set(computedKey, parsed.value);
+        }
+      }
+
+      const durationInMs = performance.now() - start;
+      for (const computedKey of new Set(computedKeys)) {
+        const hit = results.has(computedKey);
+        this.emit({
+          type: hit ? "hit" : "miss",
+          key: computedKey,
+          durationInMs,
+          bytes: hit ? values.get(computedKey)?.length ?? 0 : 0,
+          tier: hit
+            ? fromStore.has(computedKey)
+              ? "redis"
+              : "memory"
+            : undefined,
+        });
+      }
+      await Promise.all(renewals);
+    }
+
+    //Every missing key is passed once even if it was requested multiple times
+    const missing = new Map<string, K>();
+    keys.forEach((key, i) => {
+      const computedKey = computedKeys[i] as string;
+      if (!results.has(computedKey) && !missing.has(computedKey)) {
+        missing.set(computedKey, key);
+      }
+    });
+
+    if (missing.size) {
+      const retrieved = await retrieveMissing([...missing.values()]);
+      if (retrieved.length !== missing.size) {
+        throw new Error(
+          `The retrieval function returned ${retrieved.length} values for ${missing.size} missing keys`
+        );
+      }
+      await Promise.all(
+        [...missing.keys()].map((computedKey, i) => {
+          const value = retrieved[i] ?? null;
+          results.set(computedKey, value);
+          return this.retrieveAndStore(
+            computedKey,
+            () => value,
+            options,
+            cacheTimeInMs
+          );
+        })
+      );
+    }
+
+    return computedKeys.map((computedKey) => results.get(computedKey) ?? null);
+  }
+
+  /**
+   * Decode a payload and check it against the schema of the options. Invalid entries are evicted
+   * @returns the value or undefined if it is invalid
+   */
+  private async parseValidated<T>(
+    computedKey: string,
+    payload: Uint8Array,
+    options?: CacheOption<T>
+  ): Promise<{ value: T | null } | undefined> {
+    const value = this.parsePayload<T>(payload, options);
+    if (value === null || !options?.schema) {
+      return { value };
+    }
+    const result = await validate(options.schema, value);
+    if (result.success) {
+      return { value: result.value };
+    }
+    await this.evict(computedKey);
+    return undefined;
+  }
+
+  private async evict(key: string) {
+    this.invalidateMemoryTier(key);
+    await this.guard(() => this.store.del(key)).catch((e) => {
+      this.emitError(key, e);
+      console.warn(`Could not evict invalid key ${key} ${e}`);
+    });
+  }
+
+  private parsePayload<T>(
+    payload: Uint8Array,
+    options?: CacheOption
+  ): T | null {
+    if (isNullSymbol(payload)) {
+      return null;
+    }
+    return this.deserialize<T>(payload, options?.codec);
+  }
+
+  private staleTimeInMs(duration?: CacheOption["duration"]): number {
+    return duration ? this.cacheTimeInMS(duration) : 0;
+  }
+
+  private nullTimeInMs(options?: CacheOption): number {
+    return options?.nullDuration
+      ? this.cacheTimeInMS(options.nullDuration)
+      : this.getValueOrRetrieveNullDurationInMs;
+  }
+
+  /**
+   * Reset the expiration of a key. Entries carrying metadata are rewritten to move their logical expiry.
+   */
+  private async renewCacheDuration(
+    computedKey: string,
+    payload: Uint8Array,
+    metadata: EntryMetadata | undefined,
+    options: CacheOption,
+    cacheTimeInMs: number
+  ) {
+    const start = performance.now();
+    const expiryInMs = applyJitter(
+      isNullSymbol(payload) ? this.nullTimeInMs(options) : cacheTimeInMs,
+      options.jitter
+    );
+    if (!metadata) {
+      await this.store.pexpire(computedKey, expiryInMs);
+      this.emit({
+        type: "renew",
+        key: computedKey,
+        durationInMs: performance.now() - start,
+        bytes: 0,
+      });
+      return;
+    }
+    const value = encodeEntry(payload, {
+      ...metadata,
+      expiresAt: Date.now() + expiryInMs,
+    });
+    const retainTimeInMs =
+      expiryInMs +
+      Math.max(
+        this.staleTimeInMs(options.staleWhileRevalidate),
+        this.staleTimeInMs(options.staleIfError)
+      );
+    const compressed = this.compressor.compress(value);
+    await this.store.set(
+      computedKey,
+      compressed,
+      "PX",
+      Math.ceil(retainTimeInMs).toString(),
+      "XX"
+    );
+    this.emit({
+      type: "renew",
+      key: computedKey,
+      durationInMs: performance.now() - start,
+      bytes: compressed.length,
+    });
+  }
+
+  /**
+   * Retrieve a value. Concurrent callers of the same key share a single retrieval
+   * @param refreshing whether a usable value was served and is refreshed in the background
+   */
+  private retrieveCoalesced<T>(
+    computedKey: string,
+    retrieve: RetrievalFunction<T>,
+    options: CacheOption<T> | undefined,
+    cacheTimeInMs: number,
+    refreshing = false
+  ): Promise<T | null> {
+    const pending = this.pendingRetrievals.get(computedKey);
+    if (pending) {
+      return pending as Promise<T | null>;
+    }
+
+    const retrieval = (
+      options?.distributedLock && options.bypassCache !== true
+        ? this.retrieveWithLock(
+            computedKey,
+            retrieve,
+            options,
+            cacheTimeInMs,
+            refreshing
+          )
+        : this.retrieveAndStore(
+            computedKey,
+            retrieve,
+            options,
+            cacheTimeInMs,
+            refreshing
+          )
+    ).finally(() => {
+      this.pendingRetrievals.delete(computedKey);
+    });
+    this.pendingRetrievals.set(computedKey, retrieval);
+    return retrieval;
+  }
+
+  /**
+   * Call the retrieval function and cache its result
+   * @param refreshing errors are not cached while refreshing to keep the value which is still served
+   */
+  private async retrieveAndStore<T>(
+    computedKey: string,
+    retrieve: RetrievalFunction<T>,
+    options: CacheOption | undefined,
+    cacheTimeInMs: number,
+    refreshing = false
+  ): Promise<T | null> {
+    const retrieveStart = performance.now();
+    let fetchedValue: T | null;
+    try {
+      fetchedValue = await retrieve();
+    } catch (e) {
+      this.emitError(computedKey, e, performance.now() - retrieveStart);
+      if (options?.cacheErrors && !options.staleIfError && !refreshing) {
+        await this.storeError(computedKey, e, options).catch((writeError) => {
+          console.warn(
+            `Could not cache error of key ${computedKey} ${writeError}`
+          );
+        });
+      }
+      throw e;
+    }
+    const retrieveTimeInMs = performance.now() - retrieveStart;
+
+    if (fetchedValue === null) {
+      this.emit({
+        type: "retrieve",
+        key: computedKey,
+        durationInMs: retrieveTimeInMs,
+        bytes: 0,
+      });
+      if (options?.saveNullResponse !== false) {
+        const nullTtlInMs = Math.ceil(
+          applyJitter(this.nullTimeInMs(options), options?.jitter)
+        );
+        await this.write(computedKey, async () => {
+          const start = performance.now();
+          await this.storeValue(
+            computedKey,
+            NULL_SYMBOL,
+            nullTtlInMs,
+            options?.tags
+          );
+          this.emitSet(computedKey, NULL_SYMBOL, start);
+          this.invalidateMemoryTier(computedKey);
+          this.memoryTier?.set(computedKey, NULL_SYMBOL, nullTtlInMs);
+        });
+      }
+      return null;
+    }
+
+    let serialized = encodeValue(options?.codec ?? this.codec, fetchedValue);
+    this.emit({
+      type: "retrieve",
+      key: computedKey,
+      durationInMs: retrieveTimeInMs,
+      bytes: byteLength(serialized),
+    });
+
+    //Keep stale values around past their logical expiry
+    const staleTimeInMs = Math.max(
+      this.staleTimeInMs(options?.staleWhileRevalidate),
+      this.staleTimeInMs(options?.staleIfError)
+    );
+    const expiryInMs = applyJitter(cacheTimeInMs, options?.jitter);
+    if (staleTimeInMs > 0 || options?.earlyRefresh) {
+      const now = Date.now();
+      serialized = encodeEntry(serialized, {
+        expiresAt: now + expiryInMs,
+        writtenAt: now,
+        retrievalTimeInMs: options?.earlyRefresh ? retrieveTimeInMs : undefined,
+      });
+    }
+
+    const ttlInMs = Math.ceil(expiryInMs + staleTimeInMs);
+    const compressed = this.compressor.compress(serialized);
+    await this.write(computedKey, async () => {
+      const start = performance.now();
+      await this.storeValue(computedKey, compressed, ttlInMs, options?.tags);
+      this.emitSet(computedKey, compressed, start);
+      this.invalidateMemoryTier(computedKey);
+      this.memoryTier?.set(computedKey, serialized, cacheTimeInMs);
+    });
+    return fetchedValue;
+  }
+
+  /**
+   * Save the name and message of an error thrown by a retrieval function
+   */
+  private async storeError(
+    computedKey: string,
+    error: unknown,
+    options: CacheOption
+  ) {
+    const duration =
+      typeof options.cacheErrors === "object"
+        ? options.cacheErrors.duration
+        : undefined;
+    const ttlInMs = Math.ceil(
+      duration ? this.cacheTimeInMS(duration) : 5 * SECONDS
+    );
+    const marker =
+      ERROR_PREFIX +
+      JSON.stringify({
+        name: error instanceof Error ? error.name : "Error",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    await this.write(computedKey, async () => {
+      const start = performance.now();
+      await this.store.set(computedKey, marker, "PX", ttlInMs);
+      this.emitSet(computedKey, marker, start);
+      this.invalidateMemoryTier(computedKey);
+    });
+  }
+
+  /**
+   * Call the retrieval function without consulting or writing the cache
+   */
+  private async retrieveUncached<T>(
+    computedKey: string,
+    retrieve: RetrievalFunction<T>
+  ): Promise<T | null> {
+    const start = performance.now();
+    try {
+      const value = await retrieve();
+      this.emit({
+        type: "retrieve",
+        key: computedKey,
+        durationInMs: performance.now() - start,
+        bytes: 0,
+      });
+      return value;
+    } catch (e) {
+      this.emitError(computedKey, e, performance.now() - start);
+      throw e;
+    }
+  }
+
+  /**
+   * Run a store operation through the circuit breaker
+   * @throws StoreUnavailableError if the operation failed or the circuit is open
+   */
+  private async guard<T>(operation: () => Promise<T>): Promise<T> {
+    try {
+      return await (this.circuitBreaker
+        ? this.circuitBreaker.run(operation)
+        : operation());
+    } catch (e) {
+      if (e instanceof StoreUnavailableError) {
+        throw e;
+      }
+      throw new StoreUnavailableError(`Store operation failed: ${e}`, {
+        cause: e,
+      });
+    }
+  }
+
+  /**
+   * Write to the store. In fail open mode failed writes are reported as error events only
+   */
+  private async write(key: string, operation: () => Promise<void>) {
+    try {
+      await this.guard(operation);
+    } catch (e) {
+      if (!this.failOpen) {
+        throw e;
+      }
+      this.emitError(key, e);
+    }
+  }
+
+  /**
+   * Retrieve a value while holding a redis lock so only a single process of the fleet recomputes it.
+   * Processes not holding the lock poll for the fresh value until the wait timeout elapses and
+   * retrieve the value themselves afterwards.
+   */
+  private async retrieveWithLock<T>(
+    computedKey: string,
+    retrieve: RetrievalFunction<T>,
+    options: CacheOption<T>,
+    cacheTimeInMs: number,
+    refreshing: boolean
+  ): Promise<T | null> {
+    const lockOptions =
+      typeof options.distributedLock === "object"
+        ? options.distributedLock
+        : {};
+    const lockTimeoutInMs = lockOptions.lockTimeoutInMs ?? 10 * SECONDS;
+    const pollIntervalInMs = lockOptions.pollIntervalInMs ?? 50;
+    const deadline =
+      Date.now() + (lockOptions.waitTimeoutInMs ?? lockTimeoutInMs);
+
+    const lockKey = computedKey + LOCK_SUFFIX;
+    const token = crypto.randomUUID();
+
+    try {
+      while (Date.now() < deadline) {
+        const acquired = await this.guard(() =>
+          this.store.set(lockKey, token, "NX", "PX", lockTimeoutInMs.toString())
+        );
+
+        if (acquired === "OK") {
+          try {
+            return await this.retrieveAndStore(
+              computedKey,
+              retrieve,
+              options,
+              cacheTimeInMs,
+              refreshing
+            );
+          } finally {
+            await releaseLock(this.store, lockKey, token).catch((e) => {
+              this.emitError(computedKey, e);
+              console.warn(`Could not release lock of key ${computedKey} ${e}`);
+            });
+          }
+        }
+
+        //Another process is retrieving the value
+        while (Date.now() < deadline) {
+          await Bun.sleep(pollIntervalInMs);
+
+          const stored = await this.guard(() => this.store.get(computedKey));
+          const value = stored && this.compressor.decompress(stored);
+          if (value && isErrorMarker(value) && options.cacheErrors) {
+            throw decodeCachedError(value);
+          }
+          if (
+            value?.length &&
+            !isErrorMarker(value) &&
+            (!isNullSymbol(value) || options.saveNullResponse !== false)
+          ) {
+            //Stale entries are still present while the lock holder refreshes them
+            const { payload, metadata } = decodeEntry(value);
+            const parsed =
+              (!metadata || metadata.expiresAt > Date.now()) &&
+              (await this.parseValidated<T>(computedKey, payload, options));
+            if (parsed) {
+              this.memoryTier?.set(computedKey, value, cacheTimeInMs);
+              return parsed.value;
+            }
+          }
+
+          //The lock holder failed or did not save a value. Try to acquire the lock again
+          if (!(await this.guard(() => this.store.exists(lockKey)))) {
+            break;
+          }
+        }
+      }
+    } catch (e) {
+      //Retrieve without lock. Failing writes are skipped in fail open mode
+      if (!this.failOpen || !(e instanceof StoreUnavailableError)) {
+        throw e;
+      }
+      this.emitError(computedKey, e);
+    }
+
+    return this.retrieveAndStore(
+      computedKey,
+      retrieve,
+      options,
+      cacheTimeInMs,
+      refreshing
+    );
+  }
+
+  /**
+   * Cache the results of a function. The returned function has the same signature but only calls
+   * the function if the result of the arguments is not cached yet.
+   *
+   * ```ts
+   * const getUser = cache.wrap(fetchUser, {
+   *   key: (id) => ["user", id],
+   *   duration: 5 * MINUTES,
+   * });
+   * await getUser.invalidate(id);
+   * ```
+   *
+   * @param fn - The function to cache the results of.
+   * @param options - Key of the arguments and options passed to `getValueOrRetrieve`.
+   * @returns The wrapped function with an `invalidate` helper deleting the result of the arguments
+   */
+  wrap<Args extends unknown[], T, This = unknown>(
+    fn: (this: This, ...args: Args) => Promise<T> | T,
+    options?: WrapOptions<Args, T>
+  ): WrappedFunction<Args, T, This> {
+    const { key, name, ...cacheOptions } = options ?? {};
+    if (!key && !name) {
+      throw new Error(
+        `Either a key function or a name is required to wrap ${
+          fn.name || "anonymous functions"
+        }`
+      );
+    }
+    const computeKey = key ?? CacheClient.defaultWrapKey<Args>(() => name);
+    const client = this;
+
+    const wrapped = function (this: This, ...args: Args) {
+      return client.getValueOrRetrieve<T>(
+        computeKey(...args),
+        () => fn.apply(this, args),
+        cacheOptions
+      ) as Promise<T>;
+    };
+
+    return Object.assign(wrapped, {
+      invalidate: (...args: Args) =>
+        this.deleteKey(
+          this.computeCacheKey(computeKey(...args), cacheOptions.version)
+        ),
+    });
+  }
+
+  /**
+   * Method decorator caching the results of the method like `wrap` does.
+   * Methods are keyed by the name of the declaring class, the name of the method and the arguments
+   * unless a key function or name is given.
+   *
+   * ```ts
+   * class UserService {
+   *   \@cache.cached({ duration: 5 * MINUTES })
+   *   async getUser(id: string) {}
+   * }
+   * ```
+   */
+  cached<Args extends unknown[], T, This>(options?: WrapOptions<Args, T>) {
+    return (
+      method: (this: This, ...args: Args) => Promise<T>,
+      context: ClassMethodDecoratorContext<
+        This,
+        (this: This, ...args: Args) => Promise<T>
+      >
+    ): WrappedFunction<Args, T, This> => {
+      const methodName = String(context.name);
+      //The declaring class is only known once the first instance is constructed
+      let name = options?.name;
+      const wrapped = this.wrap(method, {
+        ...options,
+        key:
+          options?.key ??
+          CacheClient.defaultWrapKey<Args>(() => {
+            if (!name) {
+              throw new Error(
+                `The class declaring ${methodName} is unknown, pass a key function or name`
+              );
+            }
+            return name;
+          }),
+      });
+      if (!options?.key && !name) {
+        context.addInitializer(function () {
+          if (!name) {
+            const className = declaringClassName(
+              this,
+              methodName,
+              wrapped,
+              context.static
+            );
+            name = `${className}.${methodName}`;
+          }
+        });
+      }
+      return wrapped;
+    };
+  }
+
+  /**
+   * Define a cache in a single place instead of repeating its key format and options wherever it is used.
+   * Definitions are listed by `definitions()`.
+   *
+   * ```ts
+   * const users = cache.define<{ id: string }, User>({
+   *   name: "user",
+   *   key: ({ id }) => id,
+   *   duration: 5 * MINUTES,
+   *   retrieve: ({ id }) => db.users.find(id),
+   * });
+   * const user = await users.get({ id });
+   * await users.invalidate({ id });
+   * ```
+   *
+   * @param definition - Name, key, retrieval function and options passed to `getValueOrRetrieve`.
+   * @returns Typed handle of the cache
+   * @throws if a cache of the same name is already defined
+   */
+  define<Args, T>(
+    definition: CacheDefinitionOptions<Args, T>
+  ): CacheDefinition<Args, T> {
+    const { name, key, retrieve, ...options } = definition;
+    const registryKey = this.getValueOrRetrieveKeyPrefix + name;
+    if (this.cacheDefinitions.has(registryKey)) {
+      throw new Error(`A cache named ${name} is already defined`);
+    }
+
+    const keyOf = (args: Args): unknown[] => {
+      const parts = key(args);
+      return [name, ...(Array.isArray(parts) ? parts : [parts])];
+    };
+    const computedKeyOf = (args: Args) =>
+      this.computeCacheKey(keyOf(args), options.version);
+
+    const handle: CacheDefinition<Args, T> = {
+      name,
+      options,
+      key: computedKeyOf,
+      get: (args) =>
+        this.getValueOrRetrieve<T>(
+          keyOf(args),
+          async () => retrieve(args),
+          options
+        ),
+      peek: (args) => this.peek<T>(computedKeyOf(args), options),
+      set: async (args, value) => {
+        await this.retrieveAndStore(
+          computedKeyOf(args),
+          () => value,
+          options,
+          this.cacheTimeInMS(options.duration)
+        );
+      },
+      invalidate: (args) => this.deleteKey(computedKeyOf(args)),
+      refresh: (args) =>
+        this.getValueOrRetrieve<T>(keyOf(args), async () => retrieve(args), {
+          ...options,
+          bypassCache: true,
+        }),
+    };
+    this.cacheDefinitions.set(registryKey, handle);
+    return handle;
+  }
+
+  /**
+   * Caches created with `define` by this client and its namespaces
+   */
+  definitions(): CacheDefinition<unknown, unknown>[] {
+    return [...this.cacheDefinitions.values()];
+  }
+
+  /**
+   * Keep a value fresh by retrieving it in the background shortly before it expires, so readers never
+   * wait for the retrieval. Failed refreshes are retried with an exponential backoff.
+   * Refreshes stop once the client is closed.
+   *
+   * ```ts
+   * const stop = cache.refreshAhead(["dashboard", "sales"], computeSalesDashboard, {
+   *   duration: 10 * MINUTES,
+   *   refreshBefore: 1 * MINUTES,
+   * });
+   * await cache.warm();
+   * ```
+   *
+   * @param key - The key of the value. Prefixed and joined like the key of `getValueOrRetrieve`.
+   * @param retrieve - Retrieves the value.
+   * @param options - Threshold of the refresh and options passed to `getValueOrRetrieve`.
+   * @returns Function stopping the refreshes of the key
+   */
+  refreshAhead<T>(
+    key: string | unknown[],
+    retrieve: RetrievalFunction<T>,
+    options?: RefreshAheadKeyOptions<T>
+  ): () => void {
+    const { refreshBefore, ...cacheOptions } = options ?? {};
+    const taskKey = this.computeCacheKey(key);
+    const computedKey = this.computeCacheKey(key, cacheOptions.version);
+    const staleTimeInMs = Math.max(
+      this.staleTimeInMs(cacheOptions.staleWhileRevalidate),
+      this.staleTimeInMs(cacheOptions.staleIfError)
+    );
+
+    this.refreshScheduler.register({
+      key: taskKey,
+      refreshBeforeInMs: refreshBefore
+        ? this.cacheTimeInMS(refreshBefore)
+        : this.cacheTimeInMS(cacheOptions.duration) / 5,
+      remainingTtl: async () => {
+        const ttlInMs = await this.store.pttl(computedKey);
+        //Persisted keys never expire
+        if (ttlInMs === -1) {
+          return Number.POSITIVE_INFINITY;
+        }
+        //Stale values are kept past their cache duration
+        return ttlInMs < 0 ? -1 : ttlInMs - staleTimeInMs;
+      },
+      refresh: () =>
+        this.getValueOrRetrieve(key, retrieve, {
+          ...cacheOptions,
+          bypassCache: true,
+        }),
+    });
+    return () => this.refreshScheduler.unregister(taskKey);
+  }
+
+  /**
+   * Retrieve values registered via `refreshAhead` which are missing or about to expire, e.g. at startup.
+   * Retrievals run with the concurrency of the refresh-ahead scheduler.
    *
-   * @param {string} key - The key to retrieve the value for.
-   * @param {boolean} [raw] - If true, returns the raw string value saved in redis without parsing. If false or omitted, attempts to parse the value as JSON. Values that could be deserialized as numeric values will be returned as such even if they have been saved as strings.
-   * @returns {Promise<T | string | null>} A promise that resolves to the parsed value, or null if the key does not exist or the client is not connected.
-   *
-   * @remarks
-   * - If the value is not found or the client is not connected, returns null.
+   * @param keys - Registered keys to warm. All registered keys if omitted.
+   * @returns Promise that resolves with the number of refreshed, still fresh and failed keys
+   * @throws if one of the keys is not registered
    */
-  getValue: GetValueFunction = async <T extends object>(
-    key: string,
-    raw?: boolean
-  ): Promise<T | string | null> => {
-    if (this.client.connected) {
-      const value = await this.client.get(key);
-      if (raw || value === null) {
-        return value;
-      }
-      //eventually use he/decode for html values.
-      try {
-        return JSON.parse(value) as T;
-      } catch {
-        // throw new Error(`Failed to decode value for redis key ${key}`);
-        return value;
-      }
+  warm(keys?: (string | unknown[])[]): Promise<WarmResult> {
+    return this.refreshScheduler.warm(
+      keys?.map((key) => this.computeCacheKey(key))
+    );
+  }
+
+  /**
+   * Read a value cached by `getValueOrRetrieve` without retrieving it. Expired, null and error entries are reported as null
+   */
+  private async peek<T>(
+    computedKey: string,
+    options: CacheOption<T>
+  ): Promise<T | null> {
+    const memoryValue = this.memoryTier?.get(computedKey);
+    let value = memoryValue !== undefined ? toBytes(memoryValue) : null;
+    if (value === null) {
+      const stored = await this.store.get(computedKey);
+      value = stored && this.compressor.decompress(stored);
     }
-    return null;
-  };
+    if (!value?.length || isErrorMarker(value) || isNullSymbol(value)) {
+      return null;
+    }
+    const { payload, metadata } = decodeEntry(value);
+    if (metadata && metadata.expiresAt <= Date.now()) {
+      return null;
+    }
+    const parsed = await this.parseValidated<T>(computedKey, payload, options);
+    return parsed ? parsed.value : null;
+  }
 
-  private cacheTimeInMS(duration?: CacheOption["duration"]): number {
-    if (!duration) {
-      return this.getValueOrRetrieveCacheDurationInMs;
+  private static defaultWrapKey<Args extends unknown[]>(
+    name: () => string | undefined
+  ) {
+    return (...args: Args): unknown[] => [
+      name(),
+      ...args.map((arg) =>
+        typeof arg === "object" && arg !== null ? JSON.stringify(arg) : arg
+      ),
+    ];
+  }
+
+  /**
+   * Listen for cache events. Hits and misses are reported for lookups, retrievals of missing values,
+   * writes, renewed expirations and failures of retrieval functions or background operations.
+   *
+   * @param type - The type of events to listen for.
+   * @param listener - Invoked synchronously with the event.
+   * @returns Function removing the listener
+   */
+  on(type: CacheEventType, listener: CacheEventListener): () => void {
+    let listeners = this.listeners.get(type);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(type, listeners);
     }
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
 
-    if (typeof duration === "number") {
-      return duration;
+  /**
+   * Event counts, transferred bytes and latency histograms grouped by key prefix
+   */
+  metrics(): MetricsSnapshot {
+    return this.metricsCollector.snapshot();
+  }
+
+  /**
+   * Metrics in the Prometheus text exposition format. Serve it with the `PROMETHEUS_CONTENT_TYPE` content type.
+   * @param namespace - Prepended to the name of every metric.
+   */
+  prometheus(namespace?: string): string {
+    return renderPrometheus(this.metrics(), namespace);
+  }
+
+  private emit(event: CacheEvent) {
+    this.metricsCollector.record(event);
+    const listeners = this.listeners.get(event.type);
+    if (!listeners) {
+      return;
     }
-    switch (duration.unit) {
-      case "MILLISECONDS":
-        return duration.value;
-      case "SECONDS":
-        return SECONDS * duration.value;
-      case "MINUTES":
-        return MINUTES * duration.value;
-      case "HOURS":
-        return HOURS * duration.value;
-      case "DAYS":
-        return HOURS * duration.value;
+    for (const listener of listeners) {
+      try {
+        listener(event);
+      } catch (e) {
+        console.warn(`Cache event listener failed ${e}`);
+      }
     }
   }
 
-  async getValueOrRetrieve<T>(
-    key: string | unknown[],
-    retrieve: RetrievalFunction<T>,
-    options?: CacheOption
-  ): Promise<T | null> {
-    const computedKey = this.computeCacheKey(key);
+  private emitLookup(key: string, stored: Uint8Array | null, start: number) {
+    this.emit({
+      type: stored === null ? "miss" : "hit",
+      key,
+      durationInMs: performance.now() - start,
+      bytes: stored?.length ?? 0,
+      tier: stored === null ? undefined : "redis",
+    });
+  }
 
-    const expirationTime = this.cacheTimeInMS(options?.duration) / SECONDS;
+  private emitSet(key: string, value: string | Uint8Array, start: number) {
+    this.emit({
+      type: "set",
+      key,
+      durationInMs: performance.now() - start,
+      bytes: byteLength(value),
+    });
+  }
 
-    if (options?.bypassCache !== true) {
-      const value = await this.client.get(computedKey);
+  private emitError(key: string, error: unknown, durationInMs = 0) {
+    this.emit({ type: "error", key, durationInMs, bytes: 0, error });
+  }
 
-      if (
-        value &&
-        (value !== NULL_SYMBOL || options?.saveNullResponse !== false)
-      ) {
-        //Renew expiration time
-        if (options?.renewCacheDurationOnAccess) {
-          await this.client.expire(computedKey, expirationTime).catch((e) => {
-            console.warn(`Could not renew cache duration of key ${key} ${e}`);
-          });
-        }
+  /**
+   * Hit and miss counts of the lookups done by `getValueOrRetrieve`, reported per tier,
+   * as well as the compression ratio and time spent compressing values.
+   */
+  stats(): CacheStats {
+    return {
+      memory: this.memoryTier?.stats(),
+      redis: {
+        hits: this.redisHits,
+        misses: this.redisMisses,
+      },
+      compression: this.compressor.stats(),
+    };
+  }
 
-        if (value === NULL_SYMBOL) {
-          return null;
-        }
+  private computeCacheKey = (
+    input: string | unknown[],
+    version?: CacheOption["version"]
+  ): string => {
+    let key = this.getValueOrRetrieveKeyPrefix;
 
-        //These are all wrapping
-        return JSON.parse(value) as T;
+    if (typeof input === "string") {
+      key += input;
+    } else {
+      for (const i of input) {
+        key += `_${i}`;
       }
     }
+    return version === undefined ? key : `${key}:v${version}`;
+  };
+
+  /**
+   * Create a rate limiter counting the requests of all processes sharing the store.
+   * Requests are counted atomically by lua scripts.
+   *
+   * ```ts
+   * const limiter = cache.rateLimiter("api", { algorithm: "slidingLog", limit: 100, window: 1 * MINUTES });
+   * const { allowed, remaining, resetAt } = await limiter.consume(userId);
+   * ```
+   *
+   * @param name - Name of the limiter. Limiters of the same name share their counters.
+   * @param options - Algorithm, number of requests and window.
+   * @throws if the store is not able to evaluate scripts
+   */
+  rateLimiter(name: string, options: RateLimiterOptions): RateLimiter {
+    return new RateLimiter(
+      this.store,
+      this.keyPrefix + RATE_LIMIT_PREFIX + name,
+      options.algorithm ?? "fixedWindow",
+      options.limit,
+      this.cacheTimeInMS(options.window)
+    );
+  }
 
-    //Value needs to be retrieved;
+  /**
+   * Acquire a distributed lock. Only the returned handle is able to extend or release it.
+   * Release it explicitly or declare it with `using`.
+   *
+   * ```ts
+   * await using lock = await cache.lock("nightlyReport", { ttl: 30 * SECONDS, autoExtend: true });
+   * await saveReport(report, { fencingToken: lock.fencingToken });
+   * ```
+   *
+   * @param name - Name of the lock. Prefixed like every key of the client.
+   * @param options - Time to live of the lock, time to wait for it and automatic extension.
+   * @returns Promise that resolves with the handle of the lock once it was acquired
+   * @throws LockTimeoutError if the lock is still held by someone else after the wait timeout
+   */
+  async lock(name: string, options?: LockOptions): Promise<Lock> {
+    const ttlInMs = options?.ttl
+      ? this.cacheTimeInMS(options.ttl)
+      : 10 * SECONDS;
+    const waitTimeoutInMs =
+      options?.waitTimeout !== undefined
+        ? this.staleTimeInMs(options.waitTimeout)
+        : ttlInMs;
+    const retryDelay = options?.retryDelay ?? 50;
 
-    const fetchedValue = await retrieve();
+    const key = this.keyPrefix + USER_LOCK_PREFIX + name;
+    const fenceKey = key + FENCE_SUFFIX;
+    const token = crypto.randomUUID();
+    const deadline = Date.now() + waitTimeoutInMs;
 
-    if (fetchedValue === null) {
-      if (options?.saveNullResponse !== false) {
-        await this.client.set(computedKey, NULL_SYMBOL);
+    for (;;) {
+      const fencingToken = await acquireLock(
+        this.store,
+        key,
+        fenceKey,
+        token,
+        ttlInMs
+      );
+      if (fencingToken !== null) {
+        return new Lock(
+          this.store,
+          name,
+          key,
+          token,
+          fencingToken,
+          ttlInMs,
+          options?.autoExtend ?? false
+        );
       }
-      return null;
+      if (Date.now() + retryDelay > deadline) {
+        throw new LockTimeoutError(name, waitTimeoutInMs);
+      }
+      await Bun.sleep(retryDelay);
     }
+  }
 
-    await this.client.set(
-      computedKey,
-      JSON.stringify(fetchedValue),
-      "EX",
-      expirationTime
-    );
-    return fetchedValue;
+  /**
+   * Define a lua script. The returned function invokes the script by its SHA1 digest and loads it
+   * again whenever the server does not know it, e.g. after a restart.
+   *
+   * ```ts
+   * const incrementCapped = cache.defineScript<[string, number, number], number>(
+   *   `return math.min(redis.call("INCRBY", KEYS[1], ARGV[1]), tonumber(ARGV[2]))`,
+   *   { keys: 1, decode: Number }
+   * );
+   * await incrementCapped("visits", 1, 100);
+   * ```
+   *
+   * @param source - Lua source of the script.
+   * @param options - Number of leading arguments passed as KEYS and the conversion of the reply.
+   * KEYS are prefixed like every key of the client.
+   * @returns Function calling the script with KEYS followed by ARGV
+   * @throws if the store is not able to evaluate scripts
+   */
+  defineScript<Args extends ScriptArgument[], Result = unknown>(
+    source: string,
+    options?: ScriptOptions<Result>
+  ): ScriptFunction<Args, Result> {
+    return defineScript(this.store, source, this.keyPrefix, options);
   }
 
-  private computeCacheKey = (input: string | unknown[]): string => {
-    let key = this.getValueOrRetrieveKeyPrefix;
+  /**
+   * Create a publish/subscribe channel. Messages are serialized like values passed to `setValue`.
+   * Subscriptions share a single connection which is created with the first subscription and
+   * subscribes again after reconnecting.
+   *
+   * ```ts
+   * const orders = cache.channel<Order>("orders");
+   * await using subscription = await orders.subscribe((order) => notify(order));
+   * await orders.publish(order);
+   * ```
+   *
+   * @param name - Name of the channel. Prefixed like every key of the client.
+   * @throws if the store is not able to publish messages
+   */
+  channel<T>(name: string): Channel<T> {
+    return new Channel<T>(
+      this.store,
+      this.keyPrefix + name,
+      (message) => this.encode(message),
+      (data) => this.decodeStored<T>(data) as T
+    );
+  }
 
-    if (typeof input === "string") {
-      return key + input;
-    }
-    for (const i of input) {
-      key += `_${i}`;
-    }
-    return key;
-  };
+  /**
+   * Run multiple cache operations atomically. Commands queued on the transaction passed to the callback
+   * are executed once the callback resolves. Nothing is executed if the callback throws.
+   *
+   * Watched keys allow read-modify-write updates. Values read after the keys are watched stay valid,
+   * otherwise the transaction is aborted and the callback is run again.
+   *
+   * @param callback - Queues the commands. Return the transaction to infer the types of the results.
+   * @param options - Keys to watch and the number of retries.
+   * @returns Promise that resolves with the decoded results of the queued commands
+   * @throws TransactionAbortedError if watched keys still changed after all retries
+   */
+  transaction<R extends unknown[]>(
+    callback: (
+      tx: CacheTransaction
+    ) => CacheTransaction<R> | Promise<CacheTransaction<R>>,
+    options?: TransactionOptions
+  ): Promise<R>;
+  transaction(
+    callback: (tx: CacheTransaction) => void | Promise<void>,
+    options?: TransactionOptions
+  ): Promise<unknown[]>;
+  async transaction(
+    callback: (tx: CacheTransaction) => unknown,
+    options?: TransactionOptions
+  ): Promise<unknown[]> {
+    const retries = options?.retries ?? 5;
 
-  async transaction(callback: (tx: CacheClient) => Promise<void>) {
-    const tempClient = await CacheClient.create({
-      url: this.url,
-    });
+    for (let attempt = 0; ; attempt++) {
+      const tx = new CacheTransaction(
+        options?.watch?.length
+          ? await this.store.watch(
+              options.watch.map((key) => this.keyPrefix + key)
+            )
+          : this.store.multi(),
+        this.transactionContext
+      );
 
-    //We currently do not have proper pipelining here. Reconnect with a separate client to enforce that we do not halt invocations on other redis calls if we are awaiting in between;
-    tempClient.client.send("MULTI", []);
+      try {
+        await callback(tx);
+      } catch (e) {
+        tx.discard();
+        throw e;
+      }
 
-    try {
-      await callback(tempClient);
-      await tempClient.client.send("EXEC", []);
-    } catch (e) {
-      tempClient.client.send("DISCARD", []);
-      throw e;
+      try {
+        return await tx.exec();
+      } catch (e) {
+        if (!(e instanceof TransactionAbortedError) || attempt >= retries) {
+          throw e;
+        }
+      }
     }
   }
 
+  /**
+   * Queue commands which are executed atomically once `exec` is called.
+   *
+   * ```ts
+   * const [, count] = await cache.multi().setValue("a", 1).getValue<number>("b").exec();
+   * ```
+   */
+  multi(): CacheTransaction {
+    return new CacheTransaction(this.store.multi(), this.transactionContext);
+  }
+
+  /**
+   * Queue commands which are sent in a single round trip once `exec` is called.
+   * In contrast to `multi` commands of other clients may run in between.
+   */
+  pipeline(): CacheTransaction {
+    return new CacheTransaction(this.store.pipeline(), this.transactionContext);
+  }
+
   //Not really worth it. We have a ~5% performance improvement for the tradeoff of no guarantee of the 2nd call being cached in at least the same event loop tick.
   // async getValueOrRetrieveFast<T>(
   //   key: string,
@@ -513,7 +2863,14 @@ export class CacheClient {
    * Disconnect from the Redis server
    */
   close = () => {
-    this.client.close();
+    if (!this.ownsConnection) {
+      return;
+    }
+    this.refreshScheduler.stop();
+    this.unsubscribeInvalidations?.().catch(() => {
+      //The subscription ends with the connection anyway
+    });
+    this.store.close();
   };
 
   //Do we connect the listeners here?
@@ -526,7 +2883,17 @@ export class CacheClient {
    * @returns Promise that resolves with the number of keys removed
    */
   del(key: string): Promise<number> {
-    return this.client.del(key);
+    return this.deleteKey(this.keyPrefix + key);
+  }
+
+  private deleteKey(key: string): Promise<number> {
+    if (!this.memoryTier) {
+      return this.store.del(key);
+    }
+    return this.store.del(key).then((res) => {
+      this.invalidateMemoryTier(key);
+      return res;
+    });
   }
 
   /**
@@ -535,24 +2902,220 @@ export class CacheClient {
    * @returns Promise that resolves with true if the key exists, false otherwise
    */
   exists(key: string): Promise<boolean> {
-    return this.client.exists(key);
+    return this.store.exists(this.keyPrefix + key);
+  }
+
+  /**
+   * Create a client scoped to a namespace. Keys passed to any of its methods, including `setValue`,
+   * `getValue`, `del`, `exists`, tags and transactions, are prefixed with the namespace.
+   * The connection, memory tier, codecs, metrics, event listeners and circuit breaker are shared.
+   *
+   * ```ts
+   * const users = cache.namespace("users", { defaultDuration: 10 * MINUTES });
+   * await users.setValue("1", user); //Saved as "users:1"
+   * ```
+   *
+   * @param name - Appended to the key prefix of the client followed by ":". Namespaces can be nested.
+   * @param options - Defaults of the namespace.
+   * @returns The scoped client. Closing it does not close the shared connection
+   */
+  namespace(name: string, options?: NamespaceOptions): CacheClient {
+    if (!name) {
+      throw new Error("The name of a namespace must not be empty");
+    }
+    const scoped = new CacheClient({
+      store: this.store,
+      getValueOrRetrieveDefaultOptions: {
+        cacheDurationInMs: options?.defaultDuration
+          ? this.cacheTimeInMS(options.defaultDuration)
+          : this.getValueOrRetrieveCacheDurationInMs,
+        nullDurationInMs: this.getValueOrRetrieveNullDurationInMs,
+      },
+    });
+    const prefix = `${this.getValueOrRetrieveKeyPrefix}${name}:`;
+    scoped.keyPrefix = prefix;
+    scoped.getValueOrRetrieveKeyPrefix = prefix;
+    scoped.ownsConnection = false;
+
+    scoped.codec = this.codec;
+    scoped.codecs = this.codecs;
+    scoped.compressor = this.compressor;
+    scoped.memoryTier = this.memoryTier;
+    scoped.invalidationChannel = this.invalidationChannel;
+    scoped.instanceId = this.instanceId;
+    scoped.metricsCollector = this.metricsCollector;
+    scoped.failOpen = this.failOpen;
+    scoped.circuitBreaker = this.circuitBreaker;
+    scoped.listeners = this.listeners;
+    scoped.pendingRetrievals = this.pendingRetrievals;
+    scoped.cacheDefinitions = this.cacheDefinitions;
+    scoped.refreshScheduler = this.refreshScheduler;
+    return scoped;
+  }
+
+  /**
+   * Delete every key of the namespace. Keys are found with SCAN and removed with UNLINK in batches,
+   * redis is never blocked for long even if the namespace holds millions of keys.
+   * Keys written while the namespace is cleared may survive.
+   *
+   * @returns Promise that resolves with the number of deleted keys
+   * @throws if the client was not created via `namespace`
+   */
+  async clearNamespace(): Promise<number> {
+    if (!this.keyPrefix) {
+      throw new Error("Only clients created via namespace() can be cleared");
+    }
+    let deleted = 0;
+    for await (const keys of this.scanBatches(
+      `${escapeGlob(this.keyPrefix)}*`
+    )) {
+      deleted += await this.store.unlink(keys);
+    }
+    this.invalidateMemoryTierPrefix(this.keyPrefix);
+    return deleted;
+  }
+
+  /**
+   * Iterate the keys matching a glob style pattern using cursor based SCAN. Unlike KEYS redis is
+   * not blocked while the keyspace is traversed.
+   * Keys added or removed during the iteration may or may not be returned and a key may be returned more than once.
+   *
+   * ```ts
+   * for await (const key of cache.keys("user:*")) {
+   *   console.log(key);
+   * }
+   * ```
+   *
+   * @param pattern - Glob style pattern the keys are matched against. The prefix of namespaced clients is prepended and stripped from the returned keys.
+   * @param options - Number of keys requested per iteration and the redis type of the values.
+   */
+  async *keys(
+    pattern = "*",
+    options?: KeyIterationOptions
+  ): AsyncGenerator<string> {
+    const match = escapeGlob(this.keyPrefix) + pattern;
+    for await (const keys of this.scanBatches(match, options)) {
+      for (const key of keys) {
+        yield key.slice(this.keyPrefix.length);
+      }
+    }
+  }
+
+  /**
+   * Delete every key matching a glob style pattern. Keys are collected with SCAN and removed with
+   * UNLINK in batches. Keys added while the keyspace is traversed may survive.
+   *
+   * @param pattern - Glob style pattern the keys are matched against. The prefix of namespaced clients is prepended.
+   * @param options - Count the matching keys instead of deleting them and the batch size.
+   * @returns Promise that resolves with the number of deleted keys or the number of matching keys of a dry run
+   */
+  async deleteByPattern(
+    pattern: string,
+    options?: DeleteByPatternOptions
+  ): Promise<number> {
+    const match = escapeGlob(this.keyPrefix) + pattern;
+    let deleted = 0;
+    for await (const keys of this.scanBatches(match, {
+      count: options?.count,
+    })) {
+      if (options?.dryRun) {
+        deleted += keys.length;
+        continue;
+      }
+      deleted += await this.store.unlink(keys);
+      for (const key of keys) {
+        this.invalidateMemoryTier(key);
+      }
+    }
+    return deleted;
+  }
+
+  private async *scanBatches(
+    match: string,
+    options?: KeyIterationOptions
+  ): AsyncGenerator<string[]> {
+    let cursor = "0";
+    do {
+      const [next, keys] = await this.store.scan(cursor, {
+        match,
+        count: options?.count ?? SCAN_BATCH_SIZE,
+        type: options?.type,
+      });
+      cursor = next;
+      if (keys.length) {
+        yield keys;
+      }
+    } while (cursor !== "0");
+  }
+
+  /**
+   * Remaining time to live of a key
+   * @param key The key to check
+   * @returns Promise that resolves with the time to live in milliseconds, -1 if the key does not expire and -2 if it does not exist
+   */
+  ttlOf(key: string): Promise<number> {
+    return this.store.pttl(this.keyPrefix + key);
+  }
+
+  /**
+   * Describe how a key is saved. Useful to debug expirations, large values and codec migrations.
+   * @param key The key to inspect
+   * @returns Promise that resolves with the time to live, encoded size, codec and compression of the value or null if the key does not exist
+   */
+  async inspect(key: string): Promise<KeyInfo | null> {
+    const prefixedKey = this.keyPrefix + key;
+    const [stored, ttlInMs] = await Promise.all([
+      this.store.get(prefixedKey),
+      this.store.pttl(prefixedKey),
+    ]);
+    if (stored === null) {
+      return null;
+    }
+    const value = this.compressor.decompress(stored);
+    const { payload, metadata } = decodeEntry(value);
+    const error = isErrorMarker(value) ? decodeCachedError(value) : undefined;
+    return {
+      key: prefixedKey,
+      ttlInMs,
+      bytes: stored.length,
+      codec: codecName(payload),
+      compression: compressionOf(stored),
+      expiresAt: metadata?.expiresAt,
+      kind: error ? "error" : isNullSymbol(payload) ? "null" : "value",
+      error,
+    };
   }
 
   /**
    * Callback fired when the client connects to the Redis server
    */
   onconnect(cb: (this: CacheClient) => void) {
-    this.client.onconnect = () => {
+    this.store.onconnect = () => {
       cb.bind(this)();
     };
   }
 
+  /**
+   * Callback fired when the state of the circuit breaker changes.
+   * `open` once the store failed too often, `halfOpen` while a probe operation is let through and `closed` once it succeeded.
+   */
+  oncircuitchange(
+    cb: (this: CacheClient, state: CircuitState, previous: CircuitState) => void
+  ) {
+    if (!this.circuitBreaker) {
+      throw new Error("The circuit breaker is not enabled");
+    }
+    this.circuitBreaker.onstatechange = (state, previous) => {
+      cb.bind(this)(state, previous);
+    };
+  }
+
   /**
    * Callback fired when the client disconnects from the Redis server
    * @param error The error that caused the disconnection
    */
   onclose(cb: (this: CacheClient, error: Error) => void) {
-    this.client.onclose = (err) => {
+    this.store.onclose = (err) => {
       cb.bind(this)(err);
     };
   }
@@ -567,7 +3130,156 @@ export class CacheClient {
   //   }
 }
 
+/**
+ * Commands queued for a transaction or pipeline. Every queued command appends the type of its
+ * result to the tuple resolved by `exec`.
+ */
+export class CacheTransaction<Results extends unknown[] = []> {
+  private decoders: ((reply: unknown) => unknown)[] = [];
+  //Keys to evict from the memory tier once the commands were executed
+  private modifiedKeys: string[] = [];
+
+  /** @internal */
+  constructor(
+    private transaction: StoreTransaction,
+    private context: TransactionContext
+  ) {}
+
+  /**
+   * Queue setting key to hold the value
+   * @param options Expiration and codec of the value. Keys are persisted if no duration is given
+   */
+  setValue(
+    key: string,
+    value: unknown,
+    options?: TransactionSetValueOptions
+  ): CacheTransaction<[...Results, "OK"]> {
+    const prefixedKey = this.context.key(key);
+    const serialized = this.context.serialize(value, options?.codec);
+    if (options?.duration) {
+      const ttlInMs = this.context.cacheTimeInMs(options.duration);
+      this.transaction.set(prefixedKey, serialized, "PX", Math.ceil(ttlInMs));
+    } else {
+      this.transaction.set(prefixedKey, serialized);
+    }
+    return this.queue(prefixedKey, () => "OK");
+  }
+
+  /**
+   * Queue reading a value. Values are decoded like `CacheClient.getValue` does.
+   */
+  getValue<T>(key: string): CacheTransaction<[...Results, T | null]>;
+  getValue<T>(
+    key: string,
+    options: GetValueOptions
+  ): CacheTransaction<[...Results, T | null]>;
+  getValue(
+    key: string,
+    raw: boolean
+  ): CacheTransaction<[...Results, string | null]>;
+  getValue(key: string, rawOrOptions?: boolean | GetValueOptions) {
+    this.transaction.get(this.context.key(key));
+    return this.queue(undefined, (reply) =>
+      reply === null
+        ? null
+        : this.context.decode(reply as Uint8Array, rawOrOptions)
+    );
+  }
+
+  /**
+   * Queue deleting a key. Resolves with the number of keys removed
+   */
+  del(key: string): CacheTransaction<[...Results, number]> {
+    const prefixedKey = this.context.key(key);
+    this.transaction.del(prefixedKey);
+    return this.queue(prefixedKey, (reply) => Number(reply));
+  }
+
+  /**
+   * Queue checking if a key exists
+   */
+  exists(key: string): CacheTransaction<[...Results, boolean]> {
+    this.transaction.exists(this.context.key(key));
+    return this.queue(undefined, (reply) => Number(reply) > 0);
+  }
+
+  /**
+   * Execute the queued commands
+   * @returns Promise that resolves with the decoded result of each command in the order they were queued
+   * @throws TransactionAbortedError if a watched key changed
+   */
+  async exec(): Promise<Results> {
+    const replies = await this.transaction.exec();
+    if (replies === null) {
+      throw new TransactionAbortedError();
+    }
+    for (const key of this.modifiedKeys) {
+      this.context.invalidate(key);
+    }
+    return replies.map((reply, i) => this.decoders[i]?.(reply)) as Results;
+  }
+
+  /** @internal */
+  discard() {
+    this.transaction.discard();
+  }
+
+  private queue<R>(
+    modifiedKey: string | undefined,
+    decode: (reply: unknown) => R
+  ): CacheTransaction<[...Results, R]> {
+    this.decoders.push(decode);
+    if (modifiedKey !== undefined) {
+      this.modifiedKeys.push(modifiedKey);
+    }
+    return this as unknown as CacheTransaction<[...Results, R]>;
+  }
+}
+
+function decodeCachedError(marker: Uint8Array): CachedRetrievalError {
+  try {
+    const { name, message } = JSON.parse(
+      toText(marker.subarray(ERROR_PREFIX_BYTES.length))
+    ) as { name: string; message: string };
+    return new CachedRetrievalError(message, name);
+  } catch {
+    return new CachedRetrievalError("Retrieval failed", "Error");
+  }
+}
+
+/**
+ * Name of the class declaring the decorated method. Subclasses share the results of inherited methods
+ * @param instance - The instance being constructed or the class for static methods
+ */
+function declaringClassName(
+  instance: unknown,
+  methodName: string,
+  method: unknown,
+  isStatic: boolean
+): string {
+  let owner: object | null = isStatic
+    ? (instance as object)
+    : Object.getPrototypeOf(instance);
+  while (owner) {
+    const descriptor = Object.getOwnPropertyDescriptor(owner, methodName);
+    if (descriptor?.value === method) {
+      const name = isStatic
+        ? (owner as { name?: string }).name
+        : (owner.constructor as { name?: string } | undefined)?.name;
+      if (name) {
+        return name;
+      }
+      break;
+    }
+    owner = Object.getPrototypeOf(owner);
+  }
+  throw new Error(
+    `A key function or name is required to cache ${methodName} of anonymous classes`
+  );
+}
+
 type GetValueFunction = {
   <T>(key: string): Promise<T | null>;
+  <T>(key: string, options: GetValueOptions<T>): Promise<T | null>;
   (key: string, raw: boolean): Promise<string | null>;
 };
@@ -0,0 +1,117 @@
+/**
+ * @file Typed publish/subscribe channels. Messages are encoded with the codec of the client, strings included.
+ * Messages are transferred as text, binary payloads (other codecs, compression) are base64 encoded.
+ */
+
+import type { CacheStore } from "./store";
+
+//Prepended to base64 encoded binary messages
+const BINARY_PREFIX = "%__BINARY__%";
+
+const textEncoder = new TextEncoder();
+
+export type MessageHandler<T> = (message: T) => void | Promise<void>;
+
+function encodeMessage(data: string | Uint8Array): string {
+  return typeof data === "string"
+    ? data
+    : BINARY_PREFIX + Buffer.from(data).toString("base64");
+}
+
+function decodeMessage(message: string): Uint8Array {
+  return message.startsWith(BINARY_PREFIX)
+    ? new Uint8Array(Buffer.from(message.slice(BINARY_PREFIX.length), "base64"))
+    : textEncoder.encode(message);
+}
+
+/**
+ * Handle of a subscription. Unsubscribe explicitly or declare it with `using`/`await using`.
+ */
+export class Subscription {
+  private unsubscribed = false;
+
+  /** @internal */
+  constructor(
+    /**
+     * Name of the subscribed channel
+     */
+    readonly channel: string,
+    private remove: () => Promise<void>
+  ) {}
+
+  /**
+   * Stop receiving messages
+   */
+  async unsubscribe(): Promise<void> {
+    if (this.unsubscribed) {
+      return;
+    }
+    this.unsubscribed = true;
+    await this.remove();
+  }
+
+  [Symbol.dispose]() {
+    this.unsubscribe().catch((e) => {
+      console.warn(`Could not unsubscribe from channel ${this.channel} ${e}`);
+    });
+  }
+
+  async [Symbol.asyncDispose]() {
+    await this.unsubscribe();
+  }
+}
+
+export class Channel<T> {
+  /** @internal */
+  constructor(
+    private store: CacheStore,
+    /**
+     * Name of the channel in the store
+     */
+    readonly name: string,
+    private serialize: (message: T) => string | Uint8Array,
+    private deserialize: (data: Uint8Array) => T
+  ) {
+    if (!store.publish || !store.subscribe) {
+      throw new Error(
+        "Channels are only supported by stores able to publish messages"
+      );
+    }
+  }
+
+  /**
+   * Send a message to all subscribers of the channel
+   * @returns Promise that resolves with the number of subscribed connections which received the message
+   */
+  async publish(message: T): Promise<number> {
+    return (
+      (await this.store.publish?.(
+        this.name,
+        encodeMessage(this.serialize(message))
+      )) ?? 0
+    );
+  }
+
+  /**
+   * Receive the messages published to the channel. The handler is called in the order messages arrive
+   * without waiting for previous calls. Errors of the handler and messages which can not be decoded are logged.
+   * @returns Promise that resolves once the subscription is active
+   */
+  async subscribe(handler: MessageHandler<T>): Promise<Subscription> {
+    const remove = await this.store.subscribe?.(this.name, (message) => {
+      let decoded: T;
+      try {
+        decoded = this.deserialize(decodeMessage(message));
+      } catch (e) {
+        console.warn(`Received malformed message on channel ${this.name} ${e}`);
+        return;
+      }
+      Promise.resolve()
+        .then(() => handler(decoded))
+        .catch((e) => {
+          console.warn(`Message handler of channel ${this.name} failed ${e}`);
+        });
+    });
+    return new Subscription(this.name, remove ?? (async () => {}));
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * @file Circuit breaker guarding store operations. Once too many operations fail or time out
+ * the circuit opens and operations are rejected immediately. After a cool down a single
+ * probe operation is let through to test if the store recovered.
+ *
+ * ````
+ * closed --(error rate exceeded)--> open --(reset timeout)--> halfOpen --(probe succeeded)--> closed
+ *                                    ^-----------------(probe failed)------------'
+ * ````
+ */
+
+export type CircuitState = "closed" | "open" | "halfOpen";
+
+export interface CircuitBreakerOptions {
+  /**
+   * Fraction of failed operations within a window which opens the circuit
+   * @default 0.5
+   */
+  errorRateThreshold?: number;
+  /**
+   * Minimum number of operations within a window before the error rate is evaluated
+   * @default 10
+   */
+  minimumRequests?: number;
+  /**
+   * Length of the window operations are counted in
+   * @default 10 seconds
+   */
+  windowInMs?: number;
+  /**
+   * Operations taking longer are considered failed and rejected
+   * @default 1 second
+   */
+  timeoutInMs?: number;
+  /**
+   * Time the circuit stays open before a probe operation is let through
+   * @default 5 seconds
+   */
+  resetTimeoutInMs?: number;
+}
+
+/**
+ * Thrown for store operations which failed, timed out or were rejected by an open circuit
+ */
+export class StoreUnavailableError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "StoreUnavailableError";
+  }
+}
+
+export class CircuitBreaker {
+  private errorRateThreshold: number;
+  private minimumRequests: number;
+  private windowInMs: number;
+  private timeoutInMs: number;
+  private resetTimeoutInMs: number;
+
+  private currentState: CircuitState = "closed";
+  private openedAt = 0;
+  private probing = false;
+
+  private windowStart = Date.now();
+  private requests = 0;
+  private failures = 0;
+
+  /**
+   * Callback fired when the state of the circuit changes
+   */
+  onstatechange:
+    | ((state: CircuitState, previous: CircuitState) => void)
+    | null = null;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.errorRateThreshold = options.errorRateThreshold ?? 0.5;
+    this.minimumRequests = options.minimumRequests ?? 10;
+    this.windowInMs = options.windowInMs ?? 10_000;
+    this.timeoutInMs = options.timeoutInMs ?? 1000;
+    this.resetTimeoutInMs = options.resetTimeoutInMs ?? 5000;
+  }
+
+  get state(): CircuitState {
+    return this.currentState;
+  }
+
+  /**
+   * Run the operation if the circuit permits it
+   * @throws StoreUnavailableError if the circuit is open or the operation timed out
+   */
+  async run<T>(operation: () => Promise<T>): Promise<T> {
+    const probe = this.acquire();
+
+    let timer: Timer | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        reject(
+          new StoreUnavailableError(
+            `Store operation timed out after ${this.timeoutInMs}ms`
+          )
+        );
+      }, this.timeoutInMs);
+    });
+
+    try {
+      const result = await Promise.race([operation(), timeout]);
+      this.record(true, probe);
+      return result;
+    } catch (e) {
+      this.record(false, probe);
+      throw e;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * @returns true if the operation is the probe of a half open circuit
+   */
+  private acquire(): boolean {
+    if (this.currentState === "open") {
+      if (Date.now() - this.openedAt < this.resetTimeoutInMs) {
+        throw new StoreUnavailableError("Circuit breaker is open");
+      }
+      this.transition("halfOpen");
+    }
+    if (this.currentState === "halfOpen") {
+      if (this.probing) {
+        throw new StoreUnavailableError("Circuit breaker is half open");
+      }
+      this.probing = true;
+      return true;
+    }
+    return false;
+  }
+
+  private record(success: boolean, probe: boolean) {
+    if (probe) {
+      this.probing = false;
+      if (success) {
+        this.resetWindow();
+        this.transition("closed");
+      } else {
+        this.open();
+      }
+      return;
+    }
+
+    //Operations started before the circuit opened
+    if (this.currentState !== "closed") {
+      return;
+    }
+
+    if (Date.now() - this.windowStart > this.windowInMs) {
+      this.resetWindow();
+    }
+    this.requests++;
+    if (!success) {
+      this.failures++;
+    }
+    if (
+      this.requests >= this.minimumRequests &&
+      this.failures / this.requests >= this.errorRateThreshold
+    ) {
+      this.open();
+    }
+  }
+
+  private open() {
+    this.openedAt = Date.now();
+    this.transition("open");
+  }
+
+  private resetWindow() {
+    this.windowStart = Date.now();
+    this.requests = 0;
+    this.failures = 0;
+  }
+
+  private transition(state: CircuitState) {
+    const previous = this.currentState;
+    if (previous === state) {
+      return;
+    }
+    this.currentState = state;
+    this.onstatechange?.(state, previous);
+  }
+}
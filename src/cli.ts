@@ -0,0 +1,411 @@
+/**
+ * @file Commands of the `bun-cache` command line tool. Values are decoded by the client, so cached
+ * nulls and errors, codecs, compression and namespaces are understood.
+ * Every command prints human readable text or JSON if `--json` is passed.
+ */
+
+import { parseArgs } from "node:util";
+import type { RedisClient } from "bun";
+import type { CacheClient } from "../index";
+import { globToRegExp } from "./memoryStore";
+
+export interface CliContext {
+  client: CacheClient;
+  /**
+   * Connection used for server statistics and keyspace notifications. Not available for other stores
+   */
+  redis?: RedisClient;
+  /**
+   * Index of the database `watch` listens to
+   * @default 0
+   */
+  database?: number;
+  /**
+   * Ends `watch`
+   */
+  signal?: AbortSignal;
+  /**
+   * @default console.log
+   */
+  write?: (line: string) => void;
+  /**
+   * @default console.error
+   */
+  writeError?: (line: string) => void;
+}
+
+export const USAGE = `Usage: bun-cache <command> [arguments] [options]
+
+Commands:
+  list [pattern]         List keys matching the glob pattern (default *)
+  get <key>              Print the decoded value and how it is saved
+  ttl <key>              Print the remaining time to live
+  del <key...>           Delete keys
+  clear-prefix <prefix>  Delete all keys starting with the prefix
+  stats                  Count keys per prefix and print server statistics
+  watch [pattern]        Print changes of keys matching the pattern as they happen
+
+Options:
+  --url <url>            Redis url (default REDIS_URL)
+  -n, --namespace <name> Only address keys of the namespace
+  --dry-run              Count the keys clear-prefix would delete
+  --json                 Print JSON, watch prints one JSON object per line
+  -h, --help             Print this help`;
+
+//Keyevent notifications of changes to keys. Requires the E flag of notify-keyspace-events
+const WATCHED_EVENTS = [
+  "set",
+  "del",
+  "expire",
+  "expired",
+  "evicted",
+  "persist",
+  "rename_from",
+  "rename_to",
+  "incrby",
+  "hset",
+  "hdel",
+  "hincrby",
+];
+
+const escapeGlob = (value: string) => value.replace(/[*?[\]\\]/g, "\\$&");
+
+export function parseCliArgs(args: string[]) {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      url: { type: "string" },
+      namespace: { type: "string", short: "n" },
+      "dry-run": { type: "boolean" },
+      json: { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+    },
+    allowPositionals: true,
+  });
+  const [command, ...operands] = positionals;
+  return { command, operands, ...values };
+}
+
+/**
+ * Run a command
+ * @param args - Arguments following the name of the tool
+ * @returns Promise that resolves with the exit code: 0 on success, 1 if a key does not exist or the command failed, 2 on invalid usage
+ */
+export async function runCli(
+  args: string[],
+  context: CliContext
+): Promise<number> {
+  const write = context.write ?? console.log;
+  const writeError = context.writeError ?? console.error;
+
+  let parsed: ReturnType<typeof parseCliArgs>;
+  try {
+    parsed = parseCliArgs(args);
+  } catch (e) {
+    writeError(e instanceof Error ? e.message : String(e));
+    writeError(USAGE);
+    return 2;
+  }
+  const { command, operands, json, namespace } = parsed;
+  if (parsed.help || !command) {
+    (parsed.help ? write : writeError)(USAGE);
+    return parsed.help ? 0 : 2;
+  }
+
+  const client = namespace
+    ? context.client.namespace(namespace)
+    : context.client;
+  const prefix = namespace ? `${namespace}:` : "";
+  const print = (human: string, value: unknown) => {
+    write(json ? JSON.stringify(value, null, 2) : human);
+  };
+  const requireOperand = (name: string) => {
+    const operand = operands[0];
+    if (operand === undefined) {
+      throw new UsageError(`${command} requires a ${name}`);
+    }
+    return operand;
+  };
+
+  try {
+    switch (command) {
+      case "list": {
+        const keys: string[] = [];
+        for await (const key of client.keys(operands[0] ?? "*")) {
+          if (json) {
+            keys.push(key);
+          } else {
+            write(key);
+          }
+        }
+        if (json) {
+          write(JSON.stringify(keys, null, 2));
+        }
+        return 0;
+      }
+
+      case "get": {
+        const key = requireOperand("key");
+        const info = await client.inspect(key);
+        if (!info) {
+          print(`Key ${key} does not exist`, null);
+          return 1;
+        }
+        const value = info.kind === "value" ? await client.getValue(key) : null;
+        const error = info.error && {
+          name: info.error.originalName,
+          message: info.error.message,
+        };
+        print(
+          [
+            info.kind === "value"
+              ? Bun.inspect(value, { colors: !json && process.stdout.isTTY })
+              : info.kind === "null"
+              ? "(cached null)"
+              : `(cached error) ${error?.name}: ${error?.message}`,
+            "",
+            `ttl:         ${formatTtl(info.ttlInMs)}`,
+            `size:        ${info.bytes} bytes`,
+            `codec:       ${info.codec}`,
+            `compression: ${info.compression ?? "none"}`,
+            ...(info.expiresAt
+              ? [`expires at:  ${new Date(info.expiresAt).toISOString()}`]
+              : []),
+          ].join("\n"),
+          { ...info, value, error }
+        );
+        return 0;
+      }
+
+      case "ttl": {
+        const key = requireOperand("key");
+        const ttlInMs = await client.ttlOf(key);
+        print(formatTtl(ttlInMs), { key, ttlInMs });
+        return ttlInMs === -2 ? 1 : 0;
+      }
+
+      case "del": {
+        if (!operands.length) {
+          throw new UsageError("del requires at least one key");
+        }
+        let deleted = 0;
+        for (const key of operands) {
+          deleted += await client.del(key);
+        }
+        print(`Deleted ${deleted} keys`, { deleted });
+        return 0;
+      }
+
+      case "clear-prefix": {
+        const keyPrefix = requireOperand("prefix");
+        const dryRun = parsed["dry-run"] ?? false;
+        const deleted = await client.deleteByPattern(
+          `${escapeGlob(keyPrefix)}*`,
+          { dryRun }
+        );
+        print(
+          dryRun ? `Would delete ${deleted} keys` : `Deleted ${deleted} keys`,
+          { deleted, dryRun }
+        );
+        return 0;
+      }
+
+      case "stats": {
+        const stats = await keyspaceStats(client, context.redis);
+        const prefixes = Object.entries(stats.prefixes).sort(
+          ([, a], [, b]) => b - a
+        );
+        const width = Math.max(0, ...prefixes.map(([name]) => name.length));
+        print(
+          [
+            `Keys: ${stats.keys}`,
+            ...prefixes.map(
+              ([name, count]) => `  ${name.padEnd(width)}  ${count}`
+            ),
+            ...(stats.server
+              ? [
+                  "",
+                  ...Object.entries(stats.server).map(
+                    ([name, value]) => `${name}: ${value}`
+                  ),
+                ]
+              : []),
+          ].join("\n"),
+          stats
+        );
+        return 0;
+      }
+
+      case "watch": {
+        if (!context.redis) {
+          throw new Error("watch is only supported for redis");
+        }
+        await watch(
+          context.redis,
+          context.database ?? 0,
+          globToRegExp(escapeGlob(prefix) + (operands[0] ?? "*")),
+          (event) => {
+            const key = event.key.slice(prefix.length);
+            write(
+              json
+                ? JSON.stringify({ ...event, key })
+                : `${event.time} ${event.event.padEnd(11)} ${key}`
+            );
+          },
+          writeError,
+          context.signal
+        );
+        return 0;
+      }
+
+      default:
+        throw new UsageError(`Unknown command ${command}`);
+    }
+  } catch (e) {
+    if (e instanceof UsageError) {
+      writeError(e.message);
+      writeError(USAGE);
+      return 2;
+    }
+    writeError(`${command} failed: ${e instanceof Error ? e.message : e}`);
+    return 1;
+  }
+}
+
+class UsageError extends Error {}
+
+function formatTtl(ttlInMs: number): string {
+  if (ttlInMs === -2) {
+    return "key does not exist";
+  }
+  if (ttlInMs === -1) {
+    return "no expiry";
+  }
+  const units: [string, number][] = [
+    ["d", 86_400_000],
+    ["h", 3_600_000],
+    ["m", 60_000],
+    ["s", 1000],
+  ];
+  const parts: string[] = [];
+  let remaining = ttlInMs;
+  for (const [unit, size] of units) {
+    if (remaining >= size) {
+      parts.push(`${Math.floor(remaining / size)}${unit}`);
+      remaining %= size;
+    }
+  }
+  if (remaining || !parts.length) {
+    parts.push(`${remaining}ms`);
+  }
+  return parts.join(" ");
+}
+
+export interface KeyspaceStats {
+  keys: number;
+  /**
+   * Number of keys per prefix, the part of the key before the first ":"
+   */
+  prefixes: Record<string, number>;
+  /**
+   * Memory usage, hits and misses reported by the server
+   */
+  server?: Record<string, string>;
+}
+
+//Fields of INFO shown by stats
+const SERVER_STATS = [
+  "redis_version",
+  "used_memory_human",
+  "maxmemory_human",
+  "maxmemory_policy",
+  "connected_clients",
+  "keyspace_hits",
+  "keyspace_misses",
+  "expired_keys",
+  "evicted_keys",
+];
+
+async function keyspaceStats(
+  client: CacheClient,
+  redis?: RedisClient
+): Promise<KeyspaceStats> {
+  const stats: KeyspaceStats = { keys: 0, prefixes: {} };
+  for await (const key of client.keys()) {
+    const separator = key.indexOf(":");
+    const prefix = separator > 0 ? key.slice(0, separator) : "(none)";
+    stats.keys++;
+    stats.prefixes[prefix] = (stats.prefixes[prefix] ?? 0) + 1;
+  }
+
+  if (redis) {
+    const info = await redis.info();
+    stats.server = {};
+    for (const line of info.split("\r\n")) {
+      const [name, value] = line.split(":", 2);
+      if (name && value !== undefined && SERVER_STATS.includes(name)) {
+        stats.server[name] = value;
+      }
+    }
+  }
+  return stats;
+}
+
+export interface KeyEvent {
+  time: string;
+  event: string;
+  key: string;
+}
+
+/**
+ * Print keyevent notifications of the database until the signal is aborted
+ */
+async function watch(
+  redis: RedisClient,
+  database: number,
+  pattern: RegExp,
+  onevent: (event: KeyEvent) => void,
+  writeError: (line: string) => void,
+  signal?: AbortSignal
+) {
+  try {
+    const reply = (await redis.send("CONFIG", [
+      "GET",
+      "notify-keyspace-events",
+    ])) as string[] | Record<string, string>;
+    const flags = Array.isArray(reply)
+      ? reply[1]
+      : reply["notify-keyspace-events"];
+    if (!flags?.includes("E")) {
+      writeError(
+        "Keyevent notifications are disabled. Enable them with CONFIG SET notify-keyspace-events EA"
+      );
+    }
+  } catch {
+    //Managed servers may not allow reading the configuration
+  }
+
+  const channels = WATCHED_EVENTS.map(
+    (event) => `__keyevent@${database}__:${event}`
+  );
+  const subscriber = await redis.duplicate();
+  try {
+    await subscriber.subscribe(channels, (key, channel) => {
+      if (pattern.test(key)) {
+        onevent({
+          time: new Date().toISOString(),
+          event: channel.slice(channel.lastIndexOf(":") + 1),
+          key,
+        });
+      }
+    });
+    await new Promise<void>((resolve) => {
+      if (signal?.aborted) {
+        resolve();
+      }
+      signal?.addEventListener("abort", () => resolve(), { once: true });
+    });
+  } finally {
+    subscriber.close();
+  }
+}
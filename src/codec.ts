@@ -0,0 +1,245 @@
+/**
+ * @file Codecs translating values into the bytes saved in redis.
+ * Every value not written by the json codec starts with a small header naming the codec
+ * which wrote it. This allows to read values of different codecs side by side, e.g. while
+ * migrating from one codec to another.
+ *
+ * ````
+ * \0<codec name>\0<encoded value>
+ * ````
+ *
+ * Values without header are treated as json to keep entries written by older versions readable.
+ */
+
+import * as msgpack from "./msgpack";
+
+export interface Codec {
+  /**
+   * Unique name saved in the header of each value written by this codec
+   */
+  readonly name: string;
+  encode(value: unknown): string | Uint8Array;
+  decode(data: Uint8Array): unknown;
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+const HEADER_DELIMITER = 0;
+
+export const jsonCodec: Codec = {
+  name: "json",
+  encode: (value) => JSON.stringify(value),
+  decode: (data) => JSON.parse(textDecoder.decode(data)),
+};
+
+//Property marking objects which represent a value not expressible in json
+const TYPE_PROPERTY = "$__type";
+
+type TypedArrayConstructor =
+  | Int8ArrayConstructor
+  | Uint8ArrayConstructor
+  | Uint8ClampedArrayConstructor
+  | Int16ArrayConstructor
+  | Uint16ArrayConstructor
+  | Int32ArrayConstructor
+  | Uint32ArrayConstructor
+  | Float32ArrayConstructor
+  | Float64ArrayConstructor
+  | BigInt64ArrayConstructor
+  | BigUint64ArrayConstructor;
+
+const TYPED_ARRAYS: Record<string, TypedArrayConstructor> = {
+  Int8Array,
+  Uint8Array,
+  Uint8ClampedArray,
+  Int16Array,
+  Uint16Array,
+  Int32Array,
+  Uint32Array,
+  Float32Array,
+  Float64Array,
+  BigInt64Array,
+  BigUint64Array,
+};
+
+function richReplacer(this: Record<string, unknown>, key: string) {
+  //Use the original value as toJSON of e.g. Date already ran
+  const value = this[key];
+
+  if (typeof value === "bigint") {
+    return { [TYPE_PROPERTY]: "BigInt", value: value.toString() };
+  }
+  if (value === undefined) {
+    return Array.isArray(this) ? { [TYPE_PROPERTY]: "undefined" } : undefined;
+  }
+  if (typeof value !== "object" || value === null) {
+    return value;
+  }
+  if (value instanceof Date) {
+    return { [TYPE_PROPERTY]: "Date", value: value.toISOString() };
+  }
+  if (value instanceof Map) {
+    return { [TYPE_PROPERTY]: "Map", value: [...value] };
+  }
+  if (value instanceof Set) {
+    return { [TYPE_PROPERTY]: "Set", value: [...value] };
+  }
+  if (value instanceof RegExp) {
+    return {
+      [TYPE_PROPERTY]: "RegExp",
+      value: value.source,
+      flags: value.flags,
+    };
+  }
+  if (ArrayBuffer.isView(value) && !(value instanceof DataView)) {
+    return {
+      [TYPE_PROPERTY]: Object.keys(TYPED_ARRAYS).find(
+        (name) => value instanceof (TYPED_ARRAYS[name] as TypedArrayConstructor)
+      ),
+      value: Buffer.from(
+        value.buffer,
+        value.byteOffset,
+        value.byteLength
+      ).toString("base64"),
+    };
+  }
+  return value;
+}
+
+function richReviver(_key: string, value: unknown) {
+  if (
+    typeof value !== "object" ||
+    value === null ||
+    !(TYPE_PROPERTY in value)
+  ) {
+    return value;
+  }
+  const typed = value as {
+    [TYPE_PROPERTY]: string;
+    value: unknown;
+    flags?: string;
+  };
+  switch (typed[TYPE_PROPERTY]) {
+    case "BigInt":
+      return BigInt(typed.value as string);
+    case "undefined":
+      return undefined;
+    case "Date":
+      return new Date(typed.value as string);
+    case "Map":
+      return new Map(typed.value as [unknown, unknown][]);
+    case "Set":
+      return new Set(typed.value as unknown[]);
+    case "RegExp":
+      return new RegExp(typed.value as string, typed.flags);
+  }
+  const typedArray = TYPED_ARRAYS[typed[TYPE_PROPERTY]];
+  if (typedArray) {
+    const bytes = Buffer.from(typed.value as string, "base64");
+    //Copy into a fresh buffer to satisfy the alignment of the typed array
+    const buffer = new Uint8Array(bytes).buffer;
+    return new typedArray(buffer);
+  }
+  return value;
+}
+
+/**
+ * Json based codec additionally round tripping Date, Map, Set, BigInt, RegExp and typed arrays.
+ * Objects may not use the reserved property `$__type`.
+ */
+export const richCodec: Codec = {
+  name: "rich",
+  encode: (value) => JSON.stringify(value, richReplacer),
+  decode: (data) => JSON.parse(textDecoder.decode(data), richReviver),
+};
+
+/**
+ * Compact binary codec based on MessagePack. Maps and objects are both decoded as plain objects.
+ */
+export const msgpackCodec: Codec = {
+  name: "msgpack",
+  encode: (value) => msgpack.encode(value),
+  decode: (data) => msgpack.decode(data),
+};
+
+export const BUILT_IN_CODECS: Codec[] = [jsonCodec, richCodec, msgpackCodec];
+
+export function toBytes(value: string | Uint8Array): Uint8Array {
+  return typeof value === "string" ? textEncoder.encode(value) : value;
+}
+
+export function toText(value: string | Uint8Array): string {
+  return typeof value === "string" ? value : textDecoder.decode(value);
+}
+
+export function startsWithBytes(data: Uint8Array, prefix: Uint8Array): boolean {
+  if (data.length < prefix.length) {
+    return false;
+  }
+  for (let i = 0; i < prefix.length; i++) {
+    if (data[i] !== prefix[i]) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Encode a value and prepend the codec header.
+ * Json values are written without header.
+ */
+export function encodeValue(codec: Codec, value: unknown): string | Uint8Array {
+  const encoded = codec.encode(value);
+  if (codec.name === jsonCodec.name) {
+    return encoded;
+  }
+  const header = textEncoder.encode(`\0${codec.name}\0`);
+  const bytes = toBytes(encoded);
+  const result = new Uint8Array(header.length + bytes.length);
+  result.set(header);
+  result.set(bytes, header.length);
+  return result;
+}
+
+/**
+ * Name of the codec which wrote the value
+ */
+export function codecName(data: Uint8Array): string {
+  return readHeader(data)?.name ?? jsonCodec.name;
+}
+
+function readHeader(
+  data: Uint8Array
+): { name: string; offset: number } | undefined {
+  if (data[0] !== HEADER_DELIMITER) {
+    return undefined;
+  }
+  const end = data.indexOf(HEADER_DELIMITER, 1);
+  if (end === -1) {
+    return undefined;
+  }
+  return {
+    name: textDecoder.decode(data.subarray(1, end)),
+    offset: end + 1,
+  };
+}
+
+/**
+ * Decode a value written by `encodeValue`.
+ * @param codecs codecs by name which are able to read values
+ */
+export function decodeValue(
+  data: Uint8Array,
+  codecs: Map<string, Codec>
+): unknown {
+  const header = readHeader(data);
+  if (!header) {
+    return jsonCodec.decode(data);
+  }
+  const codec = codecs.get(header.name);
+  if (!codec) {
+    throw new Error(`No codec registered to decode values of ${header.name}`);
+  }
+  return codec.decode(data.subarray(header.offset));
+}
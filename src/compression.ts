@@ -0,0 +1,218 @@
+/**
+ * @file Transparent compression of values exceeding a size threshold.
+ * Compressed values start with a marker naming the algorithm. Values without marker are
+ * returned as is, which keeps uncompressed values written by older versions readable.
+ *
+ * ````
+ * %__GZIP__%<compressed bytes>
+ * ````
+ */
+
+import { startsWithBytes } from "./codec";
+
+export type CompressionAlgorithm = "gzip" | "deflate" | "zstd";
+
+export type ZlibCompressionLevel = NonNullable<
+  Bun.ZlibCompressionOptions["level"]
+>;
+
+const ZLIB_LEVELS: readonly ZlibCompressionLevel[] = [
+  -1, 0, 1, 2, 3, 4, 5, 6, 7, 8, 9,
+];
+
+const ZSTD_LEVELS = [
+  1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19, 20, 21, 22,
+] as const;
+
+export type ZstdCompressionLevel = (typeof ZSTD_LEVELS)[number];
+
+export interface CompressionOptions {
+  /**
+   * @default "gzip"
+   */
+  algorithm?: CompressionAlgorithm;
+  /**
+   * Values smaller than the threshold are saved uncompressed.
+   * @default 1024
+   */
+  thresholdInBytes?: number;
+  /**
+   * Compression level passed to the algorithm. Uses the default level of the algorithm if omitted.
+   * Ranges from -1 to 9 for gzip and deflate and from 1 to 22 for zstd.
+   */
+  level?: ZlibCompressionLevel | ZstdCompressionLevel;
+}
+
+export interface CompressionStats {
+  /**
+   * Number of values saved compressed
+   */
+  compressed: number;
+  /**
+   * Accumulated size of the compressed values before compression
+   */
+  uncompressedBytes: number;
+  /**
+   * Accumulated size of the compressed values after compression
+   */
+  compressedBytes: number;
+  /**
+   * compressedBytes / uncompressedBytes. 1 if nothing was compressed yet
+   */
+  ratio: number;
+  compressionTimeInMs: number;
+  /**
+   * Number of values read compressed
+   */
+  decompressed: number;
+  decompressionTimeInMs: number;
+}
+
+const textEncoder = new TextEncoder();
+
+const MARKERS: Record<CompressionAlgorithm, Uint8Array> = {
+  gzip: textEncoder.encode("%__GZIP__%"),
+  deflate: textEncoder.encode("%__DEFLATE__%"),
+  zstd: textEncoder.encode("%__ZSTD__%"),
+};
+
+const LEVELS: Record<CompressionAlgorithm, readonly number[]> = {
+  gzip: ZLIB_LEVELS,
+  deflate: ZLIB_LEVELS,
+  zstd: ZSTD_LEVELS,
+};
+
+const isZlibLevel = (level?: number): level is ZlibCompressionLevel =>
+  level !== undefined && LEVELS.gzip.includes(level);
+
+const compressors: Record<
+  CompressionAlgorithm,
+  (data: Uint8Array<ArrayBuffer>, level?: number) => Uint8Array
+> = {
+  gzip: (data, level) =>
+    Bun.gzipSync(data, isZlibLevel(level) ? { level } : undefined),
+  deflate: (data, level) =>
+    Bun.deflateSync(data, isZlibLevel(level) ? { level } : undefined),
+  zstd: (data, level) => Bun.zstdCompressSync(data, { level }),
+};
+
+const decompressors: Record<
+  CompressionAlgorithm,
+  (data: Uint8Array<ArrayBuffer>) => Uint8Array
+> = {
+  gzip: (data) => Bun.gunzipSync(data),
+  deflate: (data) => Bun.inflateSync(data),
+  zstd: (data) => Bun.zstdDecompressSync(data),
+};
+
+export class Compressor {
+  private algorithm?: CompressionAlgorithm;
+  private thresholdInBytes: number;
+  private level?: number;
+
+  private compressed = 0;
+  private uncompressedBytes = 0;
+  private compressedBytes = 0;
+  private compressionTimeInMs = 0;
+  private decompressed = 0;
+  private decompressionTimeInMs = 0;
+
+  /**
+   * @param options if omitted values are not compressed but compressed values can still be read
+   */
+  constructor(options?: CompressionOptions) {
+    if (options) {
+      this.algorithm = options.algorithm ?? "gzip";
+      const levels = LEVELS[this.algorithm];
+      if (options.level !== undefined && !levels.includes(options.level)) {
+        throw new RangeError(
+          `The ${this.algorithm} compression level must be an integer between ${
+            levels[0]
+          } and ${levels[levels.length - 1]}, got ${options.level}`
+        );
+      }
+    }
+    this.thresholdInBytes = options?.thresholdInBytes ?? 1024;
+    this.level = options?.level;
+  }
+
+  /**
+   * Compress the value if it exceeds the threshold and compression actually saves space
+   */
+  compress(data: string | Uint8Array): string | Uint8Array {
+    if (!this.algorithm) {
+      return data;
+    }
+    const bytes = typeof data === "string" ? textEncoder.encode(data) : data;
+    if (bytes.length < this.thresholdInBytes) {
+      return data;
+    }
+
+    const start = performance.now();
+    const compressed = compressors[this.algorithm](
+      bytes as Uint8Array<ArrayBuffer>,
+      this.level
+    );
+    const marker = MARKERS[this.algorithm];
+    this.compressionTimeInMs += performance.now() - start;
+
+    if (compressed.length + marker.length >= bytes.length) {
+      return data;
+    }
+
+    const result = new Uint8Array(marker.length + compressed.length);
+    result.set(marker);
+    result.set(compressed, marker.length);
+
+    this.compressed++;
+    this.uncompressedBytes += bytes.length;
+    this.compressedBytes += result.length;
+    return result;
+  }
+
+  /**
+   * Decompress the value if it carries a compression marker
+   */
+  decompress(data: Uint8Array): Uint8Array {
+    const algorithm = compressionOf(data);
+    if (!algorithm) {
+      return data;
+    }
+    const start = performance.now();
+    const result = decompressors[algorithm](
+      data.slice(MARKERS[algorithm].length)
+    );
+    this.decompressionTimeInMs += performance.now() - start;
+    this.decompressed++;
+    return result;
+  }
+
+  stats(): CompressionStats {
+    return {
+      compressed: this.compressed,
+      uncompressedBytes: this.uncompressedBytes,
+      compressedBytes: this.compressedBytes,
+      ratio:
+        this.uncompressedBytes === 0
+          ? 1
+          : this.compressedBytes / this.uncompressedBytes,
+      compressionTimeInMs: this.compressionTimeInMs,
+      decompressed: this.decompressed,
+      decompressionTimeInMs: this.decompressionTimeInMs,
+    };
+  }
+}
+
+/**
+ * Algorithm the value was compressed with or undefined if it is not compressed
+ */
+export function compressionOf(
+  data: Uint8Array
+): CompressionAlgorithm | undefined {
+  for (const algorithm of Object.keys(MARKERS) as CompressionAlgorithm[]) {
+    if (startsWithBytes(data, MARKERS[algorithm])) {
+      return algorithm;
+    }
+  }
+  return undefined;
+}
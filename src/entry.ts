@@ -0,0 +1,75 @@
+/**
+ * @file Envelope for values saved by `getValueOrRetrieve` which need to carry metadata.
+ * The metadata header is prepended to the encoded payload. Values without header are returned as is
+ * to keep entries written by older versions readable.
+ *
+ * ````
+ * %__ENTRY__%{"expiresAt":1718000000000,"writtenAt":1717999700000}\n<payload>
+ * ````
+ */
+
+import { startsWithBytes, toBytes } from "./codec";
+
+//Marks a value saved with metadata
+export const ENTRY_PREFIX = "%__ENTRY__%";
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+const ENTRY_PREFIX_BYTES = textEncoder.encode(ENTRY_PREFIX);
+const NEW_LINE = 0x0a;
+
+export interface EntryMetadata {
+  /**
+   * Unix timestamp in milliseconds after which the value is considered stale.
+   * The key itself is kept in redis for longer to be able to serve stale values.
+   */
+  expiresAt: number;
+  /**
+   * Unix timestamp in milliseconds the value was written at
+   */
+  writtenAt: number;
+  /**
+   * Time the retrieval of the value took. Saved for probabilistic early refreshes
+   */
+  retrievalTimeInMs?: number;
+}
+
+export interface Entry {
+  payload: Uint8Array;
+  metadata?: EntryMetadata;
+}
+
+export function encodeEntry(
+  payload: string | Uint8Array,
+  metadata: EntryMetadata
+): Uint8Array {
+  const header = textEncoder.encode(
+    `${ENTRY_PREFIX}${JSON.stringify(metadata)}\n`
+  );
+  const bytes = toBytes(payload);
+  const result = new Uint8Array(header.length + bytes.length);
+  result.set(header);
+  result.set(bytes, header.length);
+  return result;
+}
+
+export function decodeEntry(value: Uint8Array): Entry {
+  if (!startsWithBytes(value, ENTRY_PREFIX_BYTES)) {
+    return { payload: value };
+  }
+  const headerEnd = value.indexOf(NEW_LINE, ENTRY_PREFIX_BYTES.length);
+  if (headerEnd === -1) {
+    return { payload: value };
+  }
+  try {
+    return {
+      metadata: JSON.parse(
+        textDecoder.decode(value.subarray(ENTRY_PREFIX_BYTES.length, headerEnd))
+      ) as EntryMetadata,
+      payload: value.subarray(headerEnd + 1),
+    };
+  } catch {
+    return { payload: value };
+  }
+}
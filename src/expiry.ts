@@ -0,0 +1,57 @@
+/**
+ * @file Spreading of expirations to prevent cache stampedes. Random jitter keeps keys written at
+ * the same time from expiring at the same time. Probabilistic early refresh (XFetch) recomputes
+ * hot keys shortly before they expire, the more likely the closer the expiry and the longer the
+ * retrieval takes.
+ * See "Optimal Probabilistic Cache Stampede Prevention" by Vattani, Chierichetti and Lowenstein.
+ */
+
+/**
+ * Fraction of the cache duration, e.g. 0.1 for ±10%, or an absolute range in milliseconds
+ * added to the cache duration
+ */
+export type Jitter = number | { minInMs: number; maxInMs: number };
+
+export interface EarlyRefreshOptions {
+  /**
+   * Values above 1 favor earlier refreshes, values below 1 later ones
+   * @default 1
+   */
+  beta?: number;
+}
+
+/**
+ * Randomize a cache duration
+ * @returns the cache duration with a random offset, at least 1 millisecond
+ */
+export function applyJitter(
+  ttlInMs: number,
+  jitter: Jitter | undefined,
+  random: () => number = Math.random
+): number {
+  if (jitter === undefined) {
+    return ttlInMs;
+  }
+  const offset =
+    typeof jitter === "number"
+      ? (random() * 2 - 1) * jitter * ttlInMs
+      : jitter.minInMs + random() * (jitter.maxInMs - jitter.minInMs);
+  return Math.max(1, ttlInMs + offset);
+}
+
+/**
+ * Decide if a value which is still valid should be recomputed
+ * @param expiresAt unix timestamp in milliseconds the value expires at
+ * @param retrievalTimeInMs time the last retrieval of the value took
+ */
+export function shouldRefreshEarly(
+  expiresAt: number,
+  retrievalTimeInMs: number,
+  options?: EarlyRefreshOptions,
+  now = Date.now(),
+  random: () => number = Math.random
+): boolean {
+  const beta = options?.beta ?? 1;
+  //-log(random) is exponentially distributed, early refreshes become likely within a few retrieval times of the expiry
+  return now - retrievalTimeInMs * beta * Math.log(random()) >= expiresAt;
+}
@@ -0,0 +1,222 @@
+/**
+ * @file Distributed locks identified by a random owner token. Only the owner is able to extend or
+ * release a lock. Every acquisition increments a fencing token which downstream systems can compare
+ * to reject writes of holders whose lock already expired.
+ * Stores without script support live in process, their checks are not atomic.
+ */
+
+import { toText } from "./codec";
+import type { CacheStore } from "./store";
+
+//KEYS[1]: lock, KEYS[2]: fencing counter, ARGV[1]: owner token, ARGV[2]: ttl in ms. Returns the fencing token
+const ACQUIRE_SCRIPT = `if redis.call("SET", KEYS[1], ARGV[1], "NX", "PX", ARGV[2]) then
+  return redis.call("INCR", KEYS[2])
+end
+return false`;
+
+//Only delete the lock if it is still held by the owner
+const RELEASE_SCRIPT = `if redis.call("GET", KEYS[1]) == ARGV[1] then
+  return redis.call("DEL", KEYS[1])
+end
+return 0`;
+
+//Only extend the lock if it is still held by the owner
+const EXTEND_SCRIPT = `if redis.call("GET", KEYS[1]) == ARGV[1] then
+  return redis.call("PEXPIRE", KEYS[1], ARGV[2])
+end
+return 0`;
+
+/**
+ * Thrown if a lock could not be acquired within the wait timeout
+ */
+export class LockTimeoutError extends Error {
+  constructor(name: string, waitTimeoutInMs: number) {
+    super(`Could not acquire lock ${name} within ${waitTimeoutInMs}ms`);
+    this.name = "LockTimeoutError";
+  }
+}
+
+/**
+ * Set the lock if it is not held by anyone
+ * @returns the fencing token or null if the lock is held by someone else
+ */
+export async function acquireLock(
+  store: CacheStore,
+  key: string,
+  fenceKey: string,
+  token: string,
+  ttlInMs: number
+): Promise<number | null> {
+  const ttl = Math.ceil(ttlInMs).toString();
+  if (store.eval) {
+    const reply = await store.eval(
+      ACQUIRE_SCRIPT,
+      [key, fenceKey],
+      [token, ttl]
+    );
+    return reply === null ? null : Number(reply);
+  }
+  if ((await store.set(key, token, "NX", "PX", ttl)) !== "OK") {
+    return null;
+  }
+  return store.incr(fenceKey);
+}
+
+/**
+ * Delete the lock if it is held by the owner of the token
+ * @returns true if the lock was released
+ */
+export async function releaseLock(
+  store: CacheStore,
+  key: string,
+  token: string
+): Promise<boolean> {
+  if (store.eval) {
+    return Number(await store.eval(RELEASE_SCRIPT, [key], [token])) === 1;
+  }
+  const holder = await store.get(key);
+  return holder !== null && toText(holder) === token
+    ? (await store.del(key)) === 1
+    : false;
+}
+
+/**
+ * Reset the time to live of the lock if it is held by the owner of the token
+ * @returns true if the lock was extended
+ */
+export async function extendLock(
+  store: CacheStore,
+  key: string,
+  token: string,
+  ttlInMs: number
+): Promise<boolean> {
+  if (store.eval) {
+    const ttl = Math.ceil(ttlInMs).toString();
+    return Number(await store.eval(EXTEND_SCRIPT, [key], [token, ttl])) === 1;
+  }
+  const holder = await store.get(key);
+  return holder !== null && toText(holder) === token
+    ? (await store.pexpire(key, ttlInMs)) === 1
+    : false;
+}
+
+/**
+ * Handle of an acquired lock. Release it explicitly or declare it with `using`/`await using`.
+ *
+ * ```ts
+ * await using lock = await cache.lock("report");
+ * await writeReport({ fencingToken: lock.fencingToken });
+ * ```
+ */
+export class Lock {
+  private expiresAt: number;
+  private released = false;
+  private renewTimer?: Timer;
+
+  /**
+   * Callback fired if an automatic extension found the lock expired or taken over by someone else
+   */
+  onlost: (() => void) | null = null;
+
+  /** @internal */
+  constructor(
+    private store: CacheStore,
+    /**
+     * Name the lock was acquired with
+     */
+    readonly name: string,
+    /**
+     * Key of the lock in the store
+     */
+    readonly key: string,
+    private token: string,
+    /**
+     * Incremented with every acquisition of the lock. Pass it to downstream systems to reject
+     * writes carrying a lower token than the last one they saw.
+     */
+    readonly fencingToken: number,
+    private ttlInMs: number,
+    autoExtend: boolean
+  ) {
+    this.expiresAt = Date.now() + ttlInMs;
+    if (autoExtend) {
+      this.renewTimer = setInterval(() => {
+        this.renew();
+      }, Math.max(1, ttlInMs / 3));
+      //Renewing does not keep the process alive
+      this.renewTimer.unref();
+    }
+  }
+
+  /**
+   * False once the lock was released or its time to live elapsed
+   */
+  get held(): boolean {
+    return !this.released && Date.now() < this.expiresAt;
+  }
+
+  /**
+   * Reset the time to live of the lock
+   * @param ttlInMs - The new time to live. Defaults to the time to live the lock was acquired with
+   * @returns Promise that resolves with false if the lock is no longer held
+   */
+  async extend(ttlInMs = this.ttlInMs): Promise<boolean> {
+    if (this.released) {
+      return false;
+    }
+    const start = Date.now();
+    const extended = await extendLock(
+      this.store,
+      this.key,
+      this.token,
+      ttlInMs
+    );
+    if (extended) {
+      this.expiresAt = start + ttlInMs;
+    } else {
+      this.expiresAt = 0;
+    }
+    return extended;
+  }
+
+  /**
+   * Release the lock. Stops automatic extensions
+   * @returns Promise that resolves with false if the lock was no longer held
+   */
+  async release(): Promise<boolean> {
+    clearInterval(this.renewTimer);
+    if (this.released) {
+      return false;
+    }
+    this.released = true;
+    return releaseLock(this.store, this.key, this.token);
+  }
+
+  [Symbol.dispose]() {
+    this.release().catch((e) => {
+      console.warn(`Could not release lock ${this.name} ${e}`);
+    });
+  }
+
+  async [Symbol.asyncDispose]() {
+    await this.release();
+  }
+
+  private async renew() {
+    try {
+      if (await this.extend()) {
+        return;
+      }
+    } catch (e) {
+      console.warn(`Could not extend lock ${this.name} ${e}`);
+      //Retried on the next tick of the timer while the lock may still be held
+      if (Date.now() < this.expiresAt) {
+        return;
+      }
+    }
+    clearInterval(this.renewTimer);
+    if (!this.released) {
+      this.onlost?.();
+    }
+  }
+}
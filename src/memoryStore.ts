@@ -0,0 +1,514 @@
+/**
+ * @file In-process store keeping values in a Map. Useful for tests and single process deployments.
+ * Honours expirations, the NX/XX/GET/KEEPTTL flags of SET and keys watched by transactions.
+ * Keys hold strings or hashes.
+ * Time is read from an injectable clock.
+ * Messages are only delivered to subscribers of the same store.
+ * Scripts are not supported.
+ */
+
+import type {
+  CacheStore,
+  MessageListener,
+  ScanOptions,
+  SetArgument,
+  StoreTransaction,
+} from "./store";
+
+export interface MemoryStoreOptions {
+  /**
+   * Returns the current unix timestamp in milliseconds
+   * @default Date.now
+   */
+  now?: () => number;
+}
+
+interface StoredValue {
+  value: Uint8Array | Map<string, Uint8Array>;
+  expiresAt?: number;
+  //Insertion sequence used as scan cursor
+  id: number;
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+const toBytes = (value: string | Uint8Array) =>
+  typeof value === "string" ? textEncoder.encode(value) : value;
+
+const wrongType = () =>
+  new Error(
+    "WRONGTYPE Operation against a key holding the wrong kind of value"
+  );
+
+//Number of writes after which expired keys are removed
+const SWEEP_INTERVAL = 1000;
+
+/**
+ * Convert a redis glob style pattern into a regular expression
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i] as string;
+    switch (char) {
+      case "*":
+        source += ".*";
+        break;
+      case "?":
+        source += ".";
+        break;
+      case "[": {
+        const end = pattern.indexOf("]", i + 1);
+        if (end === -1) {
+          source += "\\[";
+          break;
+        }
+        //Negation and ranges share the syntax of regular expressions
+        source += `[${pattern.slice(i + 1, end)}]`;
+        i = end;
+        break;
+      }
+      case "\\":
+        i++;
+        source += (pattern[i] ?? "").replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+        break;
+      default:
+        source += char.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`, "s");
+}
+
+const typeOf = (stored: StoredValue) =>
+  stored.value instanceof Map ? "hash" : "string";
+
+export class MemoryStore implements CacheStore {
+  private values = new Map<string, StoredValue>();
+  private now: () => number;
+  private writes = 0;
+  private nextId = 1;
+  //Transactions to abort once a key they watch changes
+  private watchers = new Map<string, Set<MemoryTransaction>>();
+  private listeners = new Map<string, Set<MessageListener>>();
+
+  connected = false;
+  onconnect: (() => void) | null = null;
+  onclose: ((error: Error) => void) | null = null;
+
+  constructor(options?: MemoryStoreOptions) {
+    this.now = options?.now ?? Date.now;
+  }
+
+  async connect() {
+    this.connected = true;
+    this.onconnect?.();
+  }
+
+  close() {
+    if (!this.connected) {
+      return;
+    }
+    this.connected = false;
+    this.onclose?.(new Error("Connection closed"));
+  }
+
+  async get(key: string) {
+    return this.getSync(key);
+  }
+
+  async mget(keys: string[]) {
+    return keys.map((key) => this.getSync(key));
+  }
+
+  async set(
+    key: string,
+    value: string | Uint8Array,
+    ...options: SetArgument[]
+  ) {
+    return this.setSync(key, value, options);
+  }
+
+  async del(key: string) {
+    return this.delSync(key);
+  }
+
+  async unlink(keys: string[]) {
+    let removed = 0;
+    for (const key of keys) {
+      removed += this.delSync(key);
+    }
+    return removed;
+  }
+
+  async exists(key: string) {
+    return this.lookup(key) !== undefined;
+  }
+
+  async incr(key: string) {
+    const existing = this.getSync(key);
+    const value = existing ? Number(textDecoder.decode(existing)) : 0;
+    if (!Number.isSafeInteger(value)) {
+      throw new Error("ERR value is not an integer or out of range");
+    }
+    this.setSync(key, (value + 1).toString(), existing ? ["KEEPTTL"] : []);
+    return value + 1;
+  }
+
+  async pexpire(key: string, milliseconds: number) {
+    return this.pexpireSync(key, milliseconds);
+  }
+
+  async hset(key: string, fields: Record<string, string | Uint8Array>) {
+    return this.hsetSync(key, fields);
+  }
+
+  async hmget(key: string, fields: string[]) {
+    const hash = this.hashOf(key);
+    return fields.map((field) => hash?.get(field) ?? null);
+  }
+
+  async hgetall(key: string) {
+    return Object.fromEntries(this.hashOf(key) ?? []);
+  }
+
+  async hincrby(key: string, field: string, increment: number) {
+    const existing = this.hashOf(key)?.get(field);
+    const value = existing ? Number(textDecoder.decode(existing)) : 0;
+    if (!Number.isSafeInteger(value)) {
+      throw new Error("ERR hash value is not an integer");
+    }
+    this.hsetSync(key, { [field]: (value + increment).toString() });
+    return value + increment;
+  }
+
+  async scan(
+    cursor: string,
+    options?: ScanOptions
+  ): Promise<[string, string[]]> {
+    const after = Number.parseInt(cursor, 10) || 0;
+    const count = options?.count ?? 10;
+    const pattern = options?.match ? globToRegExp(options.match) : undefined;
+
+    const type = options?.type?.toLowerCase();
+
+    //Keys are visited in insertion order. Cursors are insertion sequences so keys deleted
+    //in between iterations do not cause others to be skipped
+    const result: string[] = [];
+    let examined = 0;
+    let last = after;
+    for (const [key, stored] of this.values) {
+      if (stored.id <= after) {
+        continue;
+      }
+      if (examined >= count) {
+        return [last.toString(), result];
+      }
+      examined++;
+      last = stored.id;
+      const current = this.lookup(key);
+      if (
+        current &&
+        (!pattern || pattern.test(key)) &&
+        (!type || typeOf(current) === type)
+      ) {
+        result.push(key);
+      }
+    }
+    return ["0", result];
+  }
+
+  multi(): StoreTransaction {
+    return new MemoryTransaction(this);
+  }
+
+  pipeline(): StoreTransaction {
+    return new MemoryTransaction(this);
+  }
+
+  async watch(keys: string[]): Promise<StoreTransaction> {
+    const transaction = new MemoryTransaction(this, keys);
+    for (const key of keys) {
+      let watchers = this.watchers.get(key);
+      if (!watchers) {
+        watchers = new Set();
+        this.watchers.set(key, watchers);
+      }
+      watchers.add(transaction);
+    }
+    return transaction;
+  }
+
+  async pttl(key: string) {
+    const stored = this.lookup(key);
+    if (!stored) {
+      return -2;
+    }
+    return stored.expiresAt === undefined ? -1 : stored.expiresAt - this.now();
+  }
+
+  async publish(channel: string, message: string) {
+    const listeners = [...(this.listeners.get(channel) ?? [])];
+    //Messages are delivered asynchronously like by a server
+    queueMicrotask(() => {
+      for (const listener of listeners) {
+        listener(message);
+      }
+    });
+    return listeners.length;
+  }
+
+  async subscribe(channel: string, listener: MessageListener) {
+    let listeners = this.listeners.get(channel);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(channel, listeners);
+    }
+    listeners.add(listener);
+
+    return async () => {
+      if (listeners.delete(listener) && !listeners.size) {
+        this.listeners.delete(channel);
+      }
+    };
+  }
+
+  /**
+   * Remove all keys
+   */
+  flush() {
+    for (const key of this.values.keys()) {
+      this.touch(key);
+    }
+    this.values.clear();
+  }
+
+  /** @internal */
+  getSync(key: string): Uint8Array | null {
+    const stored = this.lookup(key);
+    if (stored?.value instanceof Map) {
+      throw wrongType();
+    }
+    return stored?.value ?? null;
+  }
+
+  /** @internal */
+  lookup(key: string): StoredValue | undefined {
+    const stored = this.values.get(key);
+    if (stored?.expiresAt !== undefined && stored.expiresAt <= this.now()) {
+      this.values.delete(key);
+      this.touch(key);
+      return undefined;
+    }
+    return stored;
+  }
+
+  /** @internal */
+  setSync(
+    key: string,
+    value: string | Uint8Array,
+    options: SetArgument[]
+  ): "OK" | string | null {
+    const existing = this.lookup(key);
+    const now = this.now();
+
+    let expiresAt: number | undefined;
+    let nx = false;
+    let xx = false;
+    let get = false;
+
+    for (let i = 0; i < options.length; i++) {
+      const option = options[i]?.toString().toUpperCase();
+      switch (option) {
+        case "EX":
+          expiresAt = now + this.expireArgument(options[++i]) * 1000;
+          break;
+        case "PX":
+          expiresAt = now + this.expireArgument(options[++i]);
+          break;
+        case "EXAT":
+          expiresAt = this.expireArgument(options[++i]) * 1000;
+          break;
+        case "PXAT":
+          expiresAt = this.expireArgument(options[++i]);
+          break;
+        case "KEEPTTL":
+          expiresAt = existing?.expiresAt;
+          break;
+        case "NX":
+          nx = true;
+          break;
+        case "XX":
+          xx = true;
+          break;
+        case "GET":
+          get = true;
+          break;
+        default:
+          throw new Error(`ERR syntax error, unknown SET option ${option}`);
+      }
+    }
+
+    if (get && existing?.value instanceof Map) {
+      throw wrongType();
+    }
+    const previous =
+      existing && !(existing.value instanceof Map)
+        ? textDecoder.decode(existing.value)
+        : null;
+    if ((nx && existing) || (xx && !existing)) {
+      return get ? previous : null;
+    }
+
+    this.values.set(key, {
+      value: toBytes(value),
+      expiresAt,
+      id: existing?.id ?? this.nextId++,
+    });
+    this.touch(key);
+
+    if (++this.writes % SWEEP_INTERVAL === 0) {
+      this.sweep();
+    }
+    return get ? previous : "OK";
+  }
+
+  /** @internal */
+  hsetSync(key: string, fields: Record<string, string | Uint8Array>): number {
+    const existing = this.hashOf(key);
+    const hash = existing ?? new Map<string, Uint8Array>();
+    let added = 0;
+    for (const [field, value] of Object.entries(fields)) {
+      if (!hash.has(field)) {
+        added++;
+      }
+      hash.set(field, toBytes(value));
+    }
+    if (!existing) {
+      this.values.set(key, { value: hash, id: this.nextId++ });
+    }
+    this.touch(key);
+    return added;
+  }
+
+  /** @internal */
+  delSync(key: string): number {
+    if (!this.lookup(key)) {
+      return 0;
+    }
+    this.values.delete(key);
+    this.touch(key);
+    return 1;
+  }
+
+  /** @internal */
+  pexpireSync(key: string, milliseconds: number): number {
+    const stored = this.lookup(key);
+    if (!stored) {
+      return 0;
+    }
+    stored.expiresAt = this.now() + milliseconds;
+    this.touch(key);
+    return 1;
+  }
+
+  /** @internal */
+  unwatch(transaction: MemoryTransaction, keys: string[]) {
+    for (const key of keys) {
+      const watchers = this.watchers.get(key);
+      watchers?.delete(transaction);
+      if (watchers?.size === 0) {
+        this.watchers.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Abort transactions watching the modified key
+   */
+  private touch(key: string) {
+    const watchers = this.watchers.get(key);
+    if (!watchers) {
+      return;
+    }
+    for (const transaction of watchers) {
+      transaction.aborted = true;
+    }
+  }
+
+  private hashOf(key: string): Map<string, Uint8Array> | undefined {
+    const value = this.lookup(key)?.value;
+    if (value && !(value instanceof Map)) {
+      throw wrongType();
+    }
+    return value;
+  }
+
+  private expireArgument(argument: SetArgument | undefined): number {
+    const value = Number(argument);
+    if (!Number.isInteger(value) || value <= 0) {
+      throw new Error("ERR invalid expire time in 'set' command");
+    }
+    return value;
+  }
+
+  private sweep() {
+    for (const key of this.values.keys()) {
+      this.lookup(key);
+    }
+  }
+}
+
+/**
+ * Commands are executed synchronously one after another once `exec` is called.
+ * Replies mirror the replies of redis, GET resolves to bytes.
+ */
+class MemoryTransaction implements StoreTransaction {
+  private commands: (() => unknown)[] = [];
+  /** @internal */
+  aborted = false;
+
+  constructor(private store: MemoryStore, private watched: string[] = []) {}
+
+  get(key: string) {
+    this.commands.push(() => this.store.getSync(key));
+    return this;
+  }
+
+  set(key: string, value: string | Uint8Array, ...options: SetArgument[]) {
+    this.commands.push(() => this.store.setSync(key, value, options));
+    return this;
+  }
+
+  del(key: string) {
+    this.commands.push(() => this.store.delSync(key));
+    return this;
+  }
+
+  exists(key: string) {
+    this.commands.push(() => (this.store.lookup(key) ? 1 : 0));
+    return this;
+  }
+
+  pexpire(key: string, milliseconds: number) {
+    this.commands.push(() => this.store.pexpireSync(key, milliseconds));
+    return this;
+  }
+
+  hset(key: string, fields: Record<string, string | Uint8Array>) {
+    this.commands.push(() => this.store.hsetSync(key, fields));
+    return this;
+  }
+
+  async exec(): Promise<unknown[] | null> {
+    this.discard();
+    if (this.aborted) {
+      return null;
+    }
+    return this.commands.map((command) => command());
+  }
+
+  discard() {
+    this.store.unwatch(this, this.watched);
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * @file Bounded in-process LRU used as a first level cache in front of redis.
+ * Entries are evicted by count, by their accumulated byte size and by a per entry TTL.
+ */
+
+export interface MemoryTierOptions {
+  /**
+   * Maximum number of entries held in memory.
+   * @default 1000
+   */
+  maxEntries?: number;
+  /**
+   * Maximum accumulated size of all entries in bytes.
+   * @default 16MB
+   */
+  maxBytes?: number;
+  /**
+   * Time an entry is served from memory before redis is consulted again.
+   * Should be considerably shorter than the redis cache duration.
+   * @default 5 seconds
+   */
+  ttlInMs?: number;
+  /**
+   * Pub/sub channel used to notify other processes that a key changed.
+   * Set to false to disable cross process invalidation.
+   * @default "bun-cache:invalidate"
+   */
+  invalidationChannel?: string | false;
+}
+
+export interface TierStats {
+  hits: number;
+  misses: number;
+}
+
+export interface MemoryTierStats extends TierStats {
+  entries: number;
+  bytes: number;
+  evictions: number;
+}
+
+//Raw value as saved in redis
+export type MemoryValue = string | Uint8Array;
+
+interface MemoryEntry {
+  value: MemoryValue;
+  bytes: number;
+  expiresAt: number;
+}
+
+export class MemoryTier {
+  readonly maxEntries: number;
+  readonly maxBytes: number;
+  readonly ttlInMs: number;
+
+  //Map iteration order doubles as recency order. The first entry is the least recently used one
+  private entries = new Map<string, MemoryEntry>();
+  private bytes = 0;
+
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(options: MemoryTierOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 1000;
+    this.maxBytes = options.maxBytes ?? 16 * 1024 * 1024;
+    this.ttlInMs = options.ttlInMs ?? 5000;
+  }
+
+  /**
+   * Look up the raw redis value of a key.
+   * @returns the value or undefined if the key is not held in memory or expired
+   */
+  get(key: string): MemoryValue | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.remove(key, entry);
+      this.misses++;
+      return undefined;
+    }
+    //Move to the most recently used position
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return entry.value;
+  }
+
+  /**
+   * Hold a value in memory.
+   * @param ttlInMs upper bound for the lifetime of the entry. The tier ttl is used if it is shorter.
+   */
+  set(key: string, value: MemoryValue, ttlInMs?: number) {
+    const bytes =
+      typeof value === "string" ? Buffer.byteLength(value) : value.byteLength;
+    if (bytes > this.maxBytes) {
+      this.delete(key);
+      return;
+    }
+
+    const existing = this.entries.get(key);
+    if (existing) {
+      this.remove(key, existing);
+    }
+
+    const ttl =
+      ttlInMs !== undefined ? Math.min(ttlInMs, this.ttlInMs) : this.ttlInMs;
+    this.entries.set(key, { value, bytes, expiresAt: Date.now() + ttl });
+    this.bytes += bytes;
+
+    while (this.entries.size > this.maxEntries || this.bytes > this.maxBytes) {
+      const oldest = this.entries.keys().next();
+      if (oldest.done) {
+        break;
+      }
+      // biome-ignore lint/style/noNonNullAssertion: key was just taken from the map
+      this.remove(oldest.value, this.entries.get(oldest.value)!);
+      this.evictions++;
+    }
+  }
+
+  delete(key: string) {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.remove(key, entry);
+    }
+  }
+
+  /**
+   * Remove all keys starting with the prefix
+   */
+  deletePrefix(prefix: string) {
+    for (const [key, entry] of this.entries) {
+      if (key.startsWith(prefix)) {
+        this.remove(key, entry);
+      }
+    }
+  }
+
+  clear() {
+    this.entries.clear();
+    this.bytes = 0;
+  }
+
+  stats(): MemoryTierStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      entries: this.entries.size,
+      bytes: this.bytes,
+      evictions: this.evictions,
+    };
+  }
+
+  private remove(key: string, entry: MemoryEntry) {
+    this.entries.delete(key);
+    this.bytes -= entry.bytes;
+  }
+}
@@ -0,0 +1,237 @@
+/**
+ * @file Counters and latency histograms of cache events grouped by key prefix
+ * as well as their rendering in the Prometheus text format.
+ */
+
+export type CacheEventType =
+  | "hit"
+  | "miss"
+  | "retrieve"
+  | "set"
+  | "error"
+  | "renew";
+
+export const CACHE_EVENT_TYPES: CacheEventType[] = [
+  "hit",
+  "miss",
+  "retrieve",
+  "set",
+  "error",
+  "renew",
+];
+
+export interface CacheEvent {
+  type: CacheEventType;
+  key: string;
+  /**
+   * Time the lookup, retrieval or write took
+   */
+  durationInMs: number;
+  /**
+   * Size of the value read or written. 0 if no value was transferred
+   */
+  bytes: number;
+  /**
+   * Tier which served a hit
+   */
+  tier?: "memory" | "redis";
+  /**
+   * Cause of an error event
+   */
+  error?: unknown;
+}
+
+export type CacheEventListener = (event: CacheEvent) => void;
+
+export interface MetricsOptions {
+  /**
+   * Group keys for the metrics. Keep the number of distinct prefixes low.
+   * @default the part of the key before the first ":" or "_" after the key prefix of the client
+   */
+  prefixOf?: (key: string) => string;
+  /**
+   * Upper bounds of the latency histogram buckets in milliseconds. Rendered in seconds for Prometheus
+   * @default [1, 2.5, 5, 10, 25, 50, 100, 250, 500, 1000, 2500]
+   */
+  buckets?: number[];
+}
+
+export interface HistogramSnapshot {
+  /**
+   * Cumulative number of observations less than or equal to the upper bound
+   */
+  buckets: { le: number; count: number }[];
+  count: number;
+  sum: number;
+}
+
+export interface PrefixMetrics {
+  count: Record<CacheEventType, number>;
+  bytes: Record<CacheEventType, number>;
+  latency: Record<CacheEventType, HistogramSnapshot>;
+}
+
+export interface MetricsSnapshot {
+  prefixes: Record<string, PrefixMetrics>;
+}
+
+const DEFAULT_BUCKETS = [1, 2.5, 5, 10, 25, 50, 100, 250, 500, 1000, 2500];
+
+export const PROMETHEUS_CONTENT_TYPE =
+  "text/plain; version=0.0.4; charset=utf-8";
+
+class Histogram {
+  private counts: number[];
+  private count = 0;
+  private sum = 0;
+
+  constructor(private bounds: number[]) {
+    this.counts = bounds.map(() => 0);
+  }
+
+  observe(value: number) {
+    const index = this.bounds.findIndex((bound) => value <= bound);
+    if (index !== -1) {
+      this.counts[index] = (this.counts[index] ?? 0) + 1;
+    }
+    this.count++;
+    this.sum += value;
+  }
+
+  snapshot(): HistogramSnapshot {
+    let cumulative = 0;
+    return {
+      buckets: this.bounds.map((le, i) => {
+        cumulative += this.counts[i] ?? 0;
+        return { le, count: cumulative };
+      }),
+      count: this.count,
+      sum: this.sum,
+    };
+  }
+}
+
+interface PrefixCollector {
+  count: Record<CacheEventType, number>;
+  bytes: Record<CacheEventType, number>;
+  latency: Record<CacheEventType, Histogram>;
+}
+
+const perEventType = <T>(create: (type: CacheEventType) => T) =>
+  Object.fromEntries(
+    CACHE_EVENT_TYPES.map((type) => [type, create(type)])
+  ) as Record<CacheEventType, T>;
+
+export class Metrics {
+  private prefixes = new Map<string, PrefixCollector>();
+  private buckets: number[];
+  private prefixOf: (key: string) => string;
+
+  /**
+   * @param keyPrefix prefix of the client stripped before grouping keys
+   */
+  constructor(options?: MetricsOptions, keyPrefix = "") {
+    this.buckets = [...(options?.buckets ?? DEFAULT_BUCKETS)].sort(
+      (a, b) => a - b
+    );
+    this.prefixOf =
+      options?.prefixOf ?? ((key) => defaultPrefixOf(key, keyPrefix));
+  }
+
+  record(event: CacheEvent) {
+    const prefix = this.prefixOf(event.key);
+    let collector = this.prefixes.get(prefix);
+    if (!collector) {
+      collector = {
+        count: perEventType(() => 0),
+        bytes: perEventType(() => 0),
+        latency: perEventType(() => new Histogram(this.buckets)),
+      };
+      this.prefixes.set(prefix, collector);
+    }
+    collector.count[event.type]++;
+    collector.bytes[event.type] += event.bytes;
+    collector.latency[event.type].observe(event.durationInMs);
+  }
+
+  snapshot(): MetricsSnapshot {
+    const prefixes: Record<string, PrefixMetrics> = {};
+    for (const [prefix, collector] of this.prefixes) {
+      prefixes[prefix] = {
+        count: { ...collector.count },
+        bytes: { ...collector.bytes },
+        latency: perEventType((type) => collector.latency[type].snapshot()),
+      };
+    }
+    return { prefixes };
+  }
+
+  reset() {
+    this.prefixes.clear();
+  }
+}
+
+function defaultPrefixOf(key: string, keyPrefix: string): string {
+  const unprefixed = key.startsWith(keyPrefix)
+    ? key.slice(keyPrefix.length)
+    : key;
+  //Array keys are joined with a leading "_"
+  const [prefix] = unprefixed.replace(/^_/, "").split(/[:_]/, 1);
+  return prefix && prefix.length < unprefixed.length ? prefix : "default";
+}
+
+const toSeconds = (milliseconds: number) => milliseconds / 1000;
+
+const escapeLabel = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+
+/**
+ * Render a metrics snapshot in the Prometheus text exposition format.
+ * Latencies are converted to seconds, the base unit expected by Prometheus
+ * @param namespace prepended to the name of every metric
+ */
+export function renderPrometheus(
+  snapshot: MetricsSnapshot,
+  namespace = "bun_cache"
+): string {
+  const events = `${namespace}_events_total`;
+  const bytes = `${namespace}_bytes_total`;
+  const latency = `${namespace}_event_duration_seconds`;
+
+  const lines = [
+    `# HELP ${events} Number of cache events`,
+    `# TYPE ${events} counter`,
+  ];
+  const bytesLines = [
+    `# HELP ${bytes} Size of the values read and written`,
+    `# TYPE ${bytes} counter`,
+  ];
+  const latencyLines = [
+    `# HELP ${latency} Duration of lookups, retrievals and writes`,
+    `# TYPE ${latency} histogram`,
+  ];
+
+  for (const [prefix, metrics] of Object.entries(snapshot.prefixes)) {
+    for (const type of CACHE_EVENT_TYPES) {
+      const labels = `prefix="${escapeLabel(prefix)}",event="${type}"`;
+      lines.push(`${events}{${labels}} ${metrics.count[type]}`);
+      bytesLines.push(`${bytes}{${labels}} ${metrics.bytes[type]}`);
+
+      const histogram = metrics.latency[type];
+      for (const bucket of histogram.buckets) {
+        latencyLines.push(
+          `${latency}_bucket{${labels},le="${toSeconds(bucket.le)}"} ${
+            bucket.count
+          }`
+        );
+      }
+      latencyLines.push(
+        `${latency}_bucket{${labels},le="+Inf"} ${histogram.count}`,
+        `${latency}_sum{${labels}} ${toSeconds(histogram.sum)}`,
+        `${latency}_count{${labels}} ${histogram.count}`
+      );
+    }
+  }
+
+  return `${[...lines, ...bytesLines, ...latencyLines].join("\n")}\n`;
+}
@@ -0,0 +1,529 @@
+/**
+ * @file Minimal MessagePack encoder and decoder.
+ * Supports nil, booleans, integers up to 64 bit, floats, strings, binary data, arrays and maps.
+ * Dates are written with the timestamp extension type (-1). Maps and objects are both written as
+ * msgpack maps and are decoded as plain objects.
+ * Integers within the safe integer range are decoded as numbers, larger ones as bigints. BigInts
+ * within the safe integer range are therefore written with the extension type 1 holding an int64
+ * to be decoded as bigints again.
+ *
+ * @see https://github.com/msgpack/msgpack/blob/master/spec.md
+ */
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+const TIMESTAMP_EXT = -1;
+const BIGINT_EXT = 1;
+
+class Writer {
+  private buffer = new Uint8Array(256);
+  private view = new DataView(this.buffer.buffer);
+  private offset = 0;
+
+  private ensure(bytes: number) {
+    if (this.offset + bytes <= this.buffer.length) {
+      return;
+    }
+    let length = this.buffer.length * 2;
+    while (length < this.offset + bytes) {
+      length *= 2;
+    }
+    const buffer = new Uint8Array(length);
+    buffer.set(this.buffer);
+    this.buffer = buffer;
+    this.view = new DataView(buffer.buffer);
+  }
+
+  u8(value: number) {
+    this.ensure(1);
+    this.view.setUint8(this.offset, value);
+    this.offset += 1;
+  }
+
+  u16(value: number) {
+    this.ensure(2);
+    this.view.setUint16(this.offset, value);
+    this.offset += 2;
+  }
+
+  u32(value: number) {
+    this.ensure(4);
+    this.view.setUint32(this.offset, value);
+    this.offset += 4;
+  }
+
+  u64(value: bigint) {
+    this.ensure(8);
+    this.view.setBigUint64(this.offset, value);
+    this.offset += 8;
+  }
+
+  i8(value: number) {
+    this.ensure(1);
+    this.view.setInt8(this.offset, value);
+    this.offset += 1;
+  }
+
+  i16(value: number) {
+    this.ensure(2);
+    this.view.setInt16(this.offset, value);
+    this.offset += 2;
+  }
+
+  i32(value: number) {
+    this.ensure(4);
+    this.view.setInt32(this.offset, value);
+    this.offset += 4;
+  }
+
+  i64(value: bigint) {
+    this.ensure(8);
+    this.view.setBigInt64(this.offset, value);
+    this.offset += 8;
+  }
+
+  f64(value: number) {
+    this.ensure(8);
+    this.view.setFloat64(this.offset, value);
+    this.offset += 8;
+  }
+
+  bytes(value: Uint8Array) {
+    this.ensure(value.length);
+    this.buffer.set(value, this.offset);
+    this.offset += value.length;
+  }
+
+  result(): Uint8Array {
+    return this.buffer.slice(0, this.offset);
+  }
+}
+
+function writeInteger(writer: Writer, value: number) {
+  if (value >= 0) {
+    if (value < 0x80) {
+      writer.u8(value);
+    } else if (value <= 0xff) {
+      writer.u8(0xcc);
+      writer.u8(value);
+    } else if (value <= 0xffff) {
+      writer.u8(0xcd);
+      writer.u16(value);
+    } else if (value <= 0xffffffff) {
+      writer.u8(0xce);
+      writer.u32(value);
+    } else {
+      writer.u8(0xcf);
+      writer.u64(BigInt(value));
+    }
+    return;
+  }
+  if (value >= -0x20) {
+    writer.i8(value);
+  } else if (value >= -0x80) {
+    writer.u8(0xd0);
+    writer.i8(value);
+  } else if (value >= -0x8000) {
+    writer.u8(0xd1);
+    writer.i16(value);
+  } else if (value >= -0x80000000) {
+    writer.u8(0xd2);
+    writer.i32(value);
+  } else {
+    writer.u8(0xd3);
+    writer.i64(BigInt(value));
+  }
+}
+
+function writeBigInt(writer: Writer, value: bigint) {
+  if (
+    value >= BigInt(Number.MIN_SAFE_INTEGER) &&
+    value <= BigInt(Number.MAX_SAFE_INTEGER)
+  ) {
+    //fixext 8
+    writer.u8(0xd7);
+    writer.i8(BIGINT_EXT);
+    writer.i64(value);
+    return;
+  }
+  if (value >= 0n) {
+    if (value > 0xffffffffffffffffn) {
+      throw new RangeError(`BigInt ${value} exceeds 64 bit`);
+    }
+    writer.u8(0xcf);
+    writer.u64(value);
+    return;
+  }
+  if (value < -0x8000000000000000n) {
+    throw new RangeError(`BigInt ${value} exceeds 64 bit`);
+  }
+  writer.u8(0xd3);
+  writer.i64(value);
+}
+
+function writeString(writer: Writer, value: string) {
+  const bytes = textEncoder.encode(value);
+  const length = bytes.length;
+  if (length < 32) {
+    writer.u8(0xa0 | length);
+  } else if (length <= 0xff) {
+    writer.u8(0xd9);
+    writer.u8(length);
+  } else if (length <= 0xffff) {
+    writer.u8(0xda);
+    writer.u16(length);
+  } else {
+    writer.u8(0xdb);
+    writer.u32(length);
+  }
+  writer.bytes(bytes);
+}
+
+function writeBinary(writer: Writer, value: Uint8Array) {
+  const length = value.length;
+  if (length <= 0xff) {
+    writer.u8(0xc4);
+    writer.u8(length);
+  } else if (length <= 0xffff) {
+    writer.u8(0xc5);
+    writer.u16(length);
+  } else {
+    writer.u8(0xc6);
+    writer.u32(length);
+  }
+  writer.bytes(value);
+}
+
+function writeArrayHeader(writer: Writer, length: number) {
+  if (length < 16) {
+    writer.u8(0x90 | length);
+  } else if (length <= 0xffff) {
+    writer.u8(0xdc);
+    writer.u16(length);
+  } else {
+    writer.u8(0xdd);
+    writer.u32(length);
+  }
+}
+
+function writeMapHeader(writer: Writer, length: number) {
+  if (length < 16) {
+    writer.u8(0x80 | length);
+  } else if (length <= 0xffff) {
+    writer.u8(0xde);
+    writer.u16(length);
+  } else {
+    writer.u8(0xdf);
+    writer.u32(length);
+  }
+}
+
+function writeDate(writer: Writer, value: Date) {
+  const millis = value.getTime();
+  const seconds = Math.floor(millis / 1000);
+  const nanoseconds = (millis - seconds * 1000) * 1e6;
+  //timestamp 96
+  writer.u8(0xc7);
+  writer.u8(12);
+  writer.i8(TIMESTAMP_EXT);
+  writer.u32(nanoseconds);
+  writer.i64(BigInt(seconds));
+}
+
+function write(writer: Writer, value: unknown) {
+  switch (typeof value) {
+    case "undefined":
+      writer.u8(0xc0);
+      return;
+    case "boolean":
+      writer.u8(value ? 0xc3 : 0xc2);
+      return;
+    case "number":
+      if (Number.isSafeInteger(value)) {
+        writeInteger(writer, value);
+      } else {
+        writer.u8(0xcb);
+        writer.f64(value);
+      }
+      return;
+    case "bigint":
+      writeBigInt(writer, value);
+      return;
+    case "string":
+      writeString(writer, value);
+      return;
+    case "object":
+      break;
+    default:
+      throw new TypeError(`Can not encode value of type ${typeof value}`);
+  }
+
+  if (value === null) {
+    writer.u8(0xc0);
+  } else if (value instanceof Uint8Array) {
+    writeBinary(writer, value);
+  } else if (ArrayBuffer.isView(value)) {
+    writeBinary(
+      writer,
+      new Uint8Array(value.buffer, value.byteOffset, value.byteLength)
+    );
+  } else if (value instanceof Date) {
+    writeDate(writer, value);
+  } else if (Array.isArray(value)) {
+    writeArrayHeader(writer, value.length);
+    for (const item of value) {
+      write(writer, item);
+    }
+  } else if (value instanceof Map) {
+    writeMapHeader(writer, value.size);
+    for (const [key, item] of value) {
+      write(writer, key);
+      write(writer, item);
+    }
+  } else if (value instanceof Set) {
+    writeArrayHeader(writer, value.size);
+    for (const item of value) {
+      write(writer, item);
+    }
+  } else {
+    const entries = Object.entries(value).filter(
+      ([, item]) => item !== undefined
+    );
+    writeMapHeader(writer, entries.length);
+    for (const [key, item] of entries) {
+      writeString(writer, key);
+      write(writer, item);
+    }
+  }
+}
+
+export function encode(value: unknown): Uint8Array {
+  const writer = new Writer();
+  write(writer, value);
+  return writer.result();
+}
+
+class Reader {
+  private view: DataView;
+  offset = 0;
+
+  constructor(private data: Uint8Array) {
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  u8() {
+    return this.view.getUint8(this.offset++);
+  }
+
+  u16() {
+    const value = this.view.getUint16(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  u32() {
+    const value = this.view.getUint32(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  u64(): number | bigint {
+    const value = this.view.getBigUint64(this.offset);
+    this.offset += 8;
+    return value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value;
+  }
+
+  i8() {
+    return this.view.getInt8(this.offset++);
+  }
+
+  i16() {
+    const value = this.view.getInt16(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  i32() {
+    const value = this.view.getInt32(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  bigInt64() {
+    const value = this.view.getBigInt64(this.offset);
+    this.offset += 8;
+    return value;
+  }
+
+  i64(): number | bigint {
+    const value = this.bigInt64();
+    return value >= BigInt(Number.MIN_SAFE_INTEGER) &&
+      value <= BigInt(Number.MAX_SAFE_INTEGER)
+      ? Number(value)
+      : value;
+  }
+
+  f32() {
+    const value = this.view.getFloat32(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  f64() {
+    const value = this.view.getFloat64(this.offset);
+    this.offset += 8;
+    return value;
+  }
+
+  bytes(length: number) {
+    const value = this.data.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  string(length: number) {
+    const value = textDecoder.decode(
+      this.data.subarray(this.offset, this.offset + length)
+    );
+    this.offset += length;
+    return value;
+  }
+}
+
+function readArray(reader: Reader, length: number): unknown[] {
+  const result = new Array(length);
+  for (let i = 0; i < length; i++) {
+    result[i] = read(reader);
+  }
+  return result;
+}
+
+function readMap(reader: Reader, length: number): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (let i = 0; i < length; i++) {
+    const key = String(read(reader));
+    result[key] = read(reader);
+  }
+  return result;
+}
+
+function readExt(reader: Reader, length: number): unknown {
+  const type = reader.i8();
+  if (type === BIGINT_EXT && length === 8) {
+    return reader.bigInt64();
+  }
+  if (type !== TIMESTAMP_EXT) {
+    return reader.bytes(length);
+  }
+  switch (length) {
+    case 4:
+      return new Date(reader.u32() * 1000);
+    case 8: {
+      const high = reader.u32();
+      const low = reader.u32();
+      const nanoseconds = high >>> 2;
+      const seconds = (high & 0x3) * 0x100000000 + low;
+      return new Date(seconds * 1000 + nanoseconds / 1e6);
+    }
+    case 12: {
+      const nanoseconds = reader.u32();
+      const seconds = Number(reader.i64());
+      return new Date(seconds * 1000 + nanoseconds / 1e6);
+    }
+    default:
+      throw new RangeError(`Invalid timestamp length ${length}`);
+  }
+}
+
+function read(reader: Reader): unknown {
+  const byte = reader.u8();
+
+  if (byte < 0x80) {
+    return byte;
+  }
+  if (byte < 0x90) {
+    return readMap(reader, byte & 0x0f);
+  }
+  if (byte < 0xa0) {
+    return readArray(reader, byte & 0x0f);
+  }
+  if (byte < 0xc0) {
+    return reader.string(byte & 0x1f);
+  }
+  if (byte >= 0xe0) {
+    return byte - 0x100;
+  }
+
+  switch (byte) {
+    case 0xc0:
+      return null;
+    case 0xc2:
+      return false;
+    case 0xc3:
+      return true;
+    case 0xc4:
+      return reader.bytes(reader.u8());
+    case 0xc5:
+      return reader.bytes(reader.u16());
+    case 0xc6:
+      return reader.bytes(reader.u32());
+    case 0xc7:
+      return readExt(reader, reader.u8());
+    case 0xc8:
+      return readExt(reader, reader.u16());
+    case 0xc9:
+      return readExt(reader, reader.u32());
+    case 0xca:
+      return reader.f32();
+    case 0xcb:
+      return reader.f64();
+    case 0xcc:
+      return reader.u8();
+    case 0xcd:
+      return reader.u16();
+    case 0xce:
+      return reader.u32();
+    case 0xcf:
+      return reader.u64();
+    case 0xd0:
+      return reader.i8();
+    case 0xd1:
+      return reader.i16();
+    case 0xd2:
+      return reader.i32();
+    case 0xd3:
+      return reader.i64();
+    case 0xd4:
+      return readExt(reader, 1);
+    case 0xd5:
+      return readExt(reader, 2);
+    case 0xd6:
+      return readExt(reader, 4);
+    case 0xd7:
+      return readExt(reader, 8);
+    case 0xd8:
+      return readExt(reader, 16);
+    case 0xd9:
+      return reader.string(reader.u8());
+    case 0xda:
+      return reader.string(reader.u16());
+    case 0xdb:
+      return reader.string(reader.u32());
+    case 0xdc:
+      return readArray(reader, reader.u16());
+    case 0xdd:
+      return readArray(reader, reader.u32());
+    case 0xde:
+      return readMap(reader, reader.u16());
+    case 0xdf:
+      return readMap(reader, reader.u32());
+    default:
+      throw new RangeError(`Invalid msgpack type 0x${byte.toString(16)}`);
+  }
+}
+
+export function decode(data: Uint8Array): unknown {
+  const reader = new Reader(data);
+  return read(reader);
+}
@@ -0,0 +1,244 @@
+/**
+ * @file Rate limiting implemented as lua scripts so concurrent requests of all processes are counted
+ * atomically. Timestamps are taken from the clock of the calling process.
+ *
+ * - fixedWindow: counts requests in a window starting with the first request
+ * - slidingLog: keeps the timestamp of every request within the last window in a sorted set
+ * - tokenBucket: refills `limit` tokens per window continuously, allows bursts up to `limit`
+ */
+
+import type { CacheStore } from "./store";
+
+export type RateLimitAlgorithm = "fixedWindow" | "slidingLog" | "tokenBucket";
+
+export interface RateLimitResult {
+  /**
+   * True if the request is within the limit
+   */
+  allowed: boolean;
+  /**
+   * Maximum number of requests per window
+   */
+  limit: number;
+  /**
+   * Number of requests which are still allowed
+   */
+  remaining: number;
+  /**
+   * Unix timestamp in milliseconds at which requests are allowed again or the window resets
+   */
+  resetAt: number;
+}
+
+//All scripts: KEYS[1]: state, ARGV[1]: limit, ARGV[2]: window in ms, ARGV[3]: now in ms, ARGV[4]: cost.
+//Return {allowed, remaining, milliseconds until reset}
+const FIXED_WINDOW_SCRIPT = `local limit = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local cost = tonumber(ARGV[4])
+local current = tonumber(redis.call("GET", KEYS[1]) or "0")
+if current + cost > limit then
+  local ttl = redis.call("PTTL", KEYS[1])
+  if ttl < 0 then
+    ttl = window
+  end
+  return {0, math.max(limit - current, 0), ttl}
+end
+local count = redis.call("INCRBY", KEYS[1], cost)
+local ttl = redis.call("PTTL", KEYS[1])
+if ttl < 0 then
+  redis.call("PEXPIRE", KEYS[1], window)
+  ttl = window
+end
+return {1, limit - count, ttl}`;
+
+//ARGV[5]: unique id of the request
+const SLIDING_LOG_SCRIPT = `local limit = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local cost = tonumber(ARGV[4])
+redis.call("ZREMRANGEBYSCORE", KEYS[1], "-inf", now - window)
+local count = redis.call("ZCARD", KEYS[1])
+local allowed = 0
+if count + cost <= limit then
+  for i = 1, cost do
+    redis.call("ZADD", KEYS[1], now, ARGV[5] .. ":" .. i)
+  end
+  redis.call("PEXPIRE", KEYS[1], window)
+  count = count + cost
+  allowed = 1
+end
+local resetIn = window
+local oldest = redis.call("ZRANGE", KEYS[1], 0, 0, "WITHSCORES")
+if oldest[2] then
+  resetIn = tonumber(oldest[2]) + window - now
+end
+return {allowed, math.max(limit - count, 0), resetIn}`;
+
+const TOKEN_BUCKET_SCRIPT = `local limit = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local cost = tonumber(ARGV[4])
+local rate = limit / window
+local bucket = redis.call("HMGET", KEYS[1], "tokens", "updatedAt")
+local tokens = tonumber(bucket[1]) or limit
+local updatedAt = tonumber(bucket[2]) or now
+tokens = math.min(limit, tokens + math.max(0, now - updatedAt) * rate)
+local allowed = 0
+local resetIn
+if tokens >= cost then
+  tokens = tokens - cost
+  allowed = 1
+  resetIn = (limit - tokens) / rate
+else
+  resetIn = (cost - tokens) / rate
+end
+redis.call("HSET", KEYS[1], "tokens", tokens, "updatedAt", now)
+redis.call("PEXPIRE", KEYS[1], math.max(1, math.ceil((limit - tokens) / rate)))
+return {allowed, math.floor(tokens), math.ceil(resetIn)}`;
+
+const SCRIPTS: Record<RateLimitAlgorithm, string> = {
+  fixedWindow: FIXED_WINDOW_SCRIPT,
+  slidingLog: SLIDING_LOG_SCRIPT,
+  tokenBucket: TOKEN_BUCKET_SCRIPT,
+};
+
+export class RateLimiter {
+  /** @internal */
+  constructor(
+    private store: CacheStore,
+    private keyPrefix: string,
+    readonly algorithm: RateLimitAlgorithm,
+    readonly limit: number,
+    readonly windowInMs: number
+  ) {
+    if (!store.eval) {
+      throw new Error(
+        "Rate limiting is only supported by stores able to evaluate scripts"
+      );
+    }
+  }
+
+  /**
+   * Count a request of the identifier against the limit
+   * @param identifier - The client the requests are limited for, e.g. an ip address or user id
+   * @param cost - Number of requests the request counts as
+   * @returns Promise that resolves with the decision and the state of the limit
+   */
+  async consume(identifier: string, cost = 1): Promise<RateLimitResult> {
+    const now = Date.now();
+    const args = [
+      this.limit.toString(),
+      Math.ceil(this.windowInMs).toString(),
+      now.toString(),
+      cost.toString(),
+    ];
+    if (this.algorithm === "slidingLog") {
+      args.push(crypto.randomUUID());
+    }
+    const [allowed, remaining, resetInMs] = (await this.store.eval?.(
+      SCRIPTS[this.algorithm],
+      [this.key(identifier)],
+      args
+    )) as [number, number, number];
+    return {
+      allowed: allowed === 1,
+      limit: this.limit,
+      remaining,
+      resetAt: now + resetInMs,
+    };
+  }
+
+  /**
+   * Forget all requests of the identifier
+   */
+  async reset(identifier: string): Promise<void> {
+    await this.store.del(this.key(identifier));
+  }
+
+  private key(identifier: string) {
+    return `${this.keyPrefix}:${identifier}`;
+  }
+}
+
+export interface RateLimitHandlerOptions<WebSocketData> {
+  /**
+   * Identify the client of a request
+   * @default the ip address of the client
+   */
+  key?: (
+    request: Request,
+    server: Bun.Server<WebSocketData>
+  ) => string | Promise<string>;
+  /**
+   * Build the response of rejected requests. RateLimit headers are added to it
+   * @default 429 Too Many Requests
+   */
+  onLimited?: (
+    request: Request,
+    result: RateLimitResult
+  ) => Response | Promise<Response>;
+}
+
+/**
+ * Headers of the IETF RateLimit header fields draft. Reset is given in seconds
+ */
+export function rateLimitHeaders(result: RateLimitResult): Headers {
+  const resetInSeconds = Math.max(
+    0,
+    Math.ceil((result.resetAt - Date.now()) / 1000)
+  );
+  const headers = new Headers({
+    "RateLimit-Limit": result.limit.toString(),
+    "RateLimit-Remaining": result.remaining.toString(),
+    "RateLimit-Reset": resetInSeconds.toString(),
+  });
+  if (!result.allowed) {
+    headers.set("Retry-After", resetInSeconds.toString());
+  }
+  return headers;
+}
+
+/**
+ * Limit the requests of a `Bun.serve` fetch handler. Rejected requests are answered with 429 without
+ * calling the handler. RateLimit headers are added to every response.
+ *
+ * ```ts
+ * Bun.serve({
+ *   fetch: withRateLimit(limiter, (request) => new Response("Hello")),
+ * });
+ * ```
+ */
+export function withRateLimit<WebSocketData = undefined>(
+  limiter: RateLimiter,
+  fetch: (
+    request: Request,
+    server: Bun.Server<WebSocketData>
+  ) => Response | Promise<Response>,
+  options?: RateLimitHandlerOptions<WebSocketData>
+) {
+  return async (
+    request: Request,
+    server: Bun.Server<WebSocketData>
+  ): Promise<Response> => {
+    const identifier = options?.key
+      ? await options.key(request, server)
+      : server.requestIP(request)?.address ?? "unknown";
+    const result = await limiter.consume(identifier);
+
+    const response = result.allowed
+      ? await fetch(request, server)
+      : await (options?.onLimited?.(request, result) ??
+          new Response("Too Many Requests", { status: 429 }));
+
+    //Headers of fetched responses are immutable
+    const headers = new Headers(response.headers);
+    for (const [name, value] of rateLimitHeaders(result)) {
+      headers.set(name, value);
+    }
+    return new Response(response.body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+    });
+  };
+}
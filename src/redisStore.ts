@@ -0,0 +1,509 @@
+/**
+ * @file Default store backed by the bun redis client.
+ */
+
+import type { RedisClient } from "bun";
+import { toBytes } from "./codec";
+import type {
+  CacheStore,
+  MessageListener,
+  ScanOptions,
+  SetArgument,
+  StoreTransaction,
+} from "./store";
+
+//Maximum number of idle connections kept for watching transactions
+const MAX_IDLE_CLIENTS = 4;
+
+//Attempts of a transaction to read values which are not changed by others before it executes
+const MAX_READ_ATTEMPTS = 5;
+
+//Replies of `send` are decoded as text which corrupts binary values. Binary fields of hashes are
+//therefore saved as base64 encoded text behind this prefix
+const BINARY_PREFIX = "%__BINARY__%";
+
+export class RedisStore implements CacheStore {
+  private idleClients: RedisClient[] = [];
+  //Subscribing blocks a connection, subscriptions share a connection created on demand
+  private subscriber?: Promise<RedisClient>;
+  private listeners = new Map<string, Set<MessageListener>>();
+
+  constructor(public readonly client: RedisClient) {}
+
+  get connected() {
+    return this.client.connected;
+  }
+
+  connect() {
+    return this.client.connect();
+  }
+
+  close() {
+    for (const client of this.idleClients.splice(0)) {
+      client.close();
+    }
+    this.subscriber
+      ?.then((subscriber) => subscriber.close())
+      .catch(() => {
+        //Nothing to close if the connection failed
+      });
+    this.subscriber = undefined;
+    this.listeners.clear();
+    this.client.close();
+  }
+
+  get onconnect() {
+    return this.client.onconnect;
+  }
+
+  set onconnect(cb: (() => void) | null) {
+    this.client.onconnect = cb;
+  }
+
+  get onclose() {
+    return this.client.onclose;
+  }
+
+  set onclose(cb: ((error: Error) => void) | null) {
+    this.client.onclose = cb;
+  }
+
+  get(key: string) {
+    return this.client.getBuffer(key);
+  }
+
+  /**
+   * Replies of MGET are decoded as text which corrupts binary values. The keys are therefore read
+   * with one GET each, sent as a single pipeline sharing one round trip.
+   */
+  mget(keys: string[]) {
+    const pipeline = this.pipeline();
+    for (const key of keys) {
+      pipeline.get(key);
+    }
+    return pipeline.exec() as Promise<(Uint8Array | null)[]>;
+  }
+
+  set(key: string, value: string | Uint8Array, ...options: SetArgument[]) {
+    return this.client.set(
+      key,
+      value,
+      ...options.map((option) => option.toString())
+    );
+  }
+
+  del(key: string) {
+    return this.client.del(key);
+  }
+
+  async unlink(keys: string[]) {
+    if (!keys.length) {
+      return 0;
+    }
+    return Number(await this.client.send("UNLINK", keys));
+  }
+
+  exists(key: string) {
+    return this.client.exists(key);
+  }
+
+  incr(key: string) {
+    return this.client.incr(key);
+  }
+
+  pexpire(key: string, milliseconds: number) {
+    return this.client.pexpire(key, Math.ceil(milliseconds));
+  }
+
+  pttl(key: string) {
+    return this.client.pttl(key);
+  }
+
+  hset(key: string, fields: Record<string, string | Uint8Array>) {
+    return this.client.hset(key, encodeFields(fields));
+  }
+
+  async hmget(key: string, fields: string[]) {
+    const replies = await this.client.hmget(key, fields);
+    return replies.map((reply) => (reply === null ? null : decodeField(reply)));
+  }
+
+  async hgetall(key: string) {
+    const replies = await this.client.hgetall(key);
+    const result: Record<string, Uint8Array> = {};
+    for (const [field, reply] of Object.entries(replies)) {
+      result[field] = decodeField(reply);
+    }
+    return result;
+  }
+
+  hincrby(key: string, field: string, increment: number) {
+    return this.client.hincrby(key, field, increment);
+  }
+
+  scan(cursor: string, options?: ScanOptions) {
+    const args: string[] = [];
+    if (options?.match) {
+      args.push("MATCH", options.match);
+    }
+    if (options?.count) {
+      args.push("COUNT", options.count.toString());
+    }
+    if (options?.type) {
+      args.push("TYPE", options.type);
+    }
+    return this.client.scan(cursor, ...args);
+  }
+
+  multi(): StoreTransaction {
+    return new RedisTransaction(this.client, undefined, {
+      acquire: () => this.acquireClient(),
+      release: (client) => this.releaseClient(client),
+    });
+  }
+
+  pipeline(): StoreTransaction {
+    return new RedisPipeline(this.client);
+  }
+
+  /**
+   * WATCH applies to the whole connection. Watching transactions therefore run on a dedicated
+   * connection taken from a small pool.
+   */
+  async watch(keys: string[]): Promise<StoreTransaction> {
+    const client = await this.acquireClient();
+    const release = () => this.releaseClient(client);
+    try {
+      await client.send("WATCH", keys);
+    } catch (e) {
+      release();
+      throw e;
+    }
+    return new RedisTransaction(client, release);
+  }
+
+  private async acquireClient(): Promise<RedisClient> {
+    return this.idleClients.pop() ?? (await this.client.duplicate());
+  }
+
+  private releaseClient(client: RedisClient) {
+    if (
+      this.client.connected &&
+      client.connected &&
+      this.idleClients.length < MAX_IDLE_CLIENTS
+    ) {
+      this.idleClients.push(client);
+    } else {
+      client.close();
+    }
+  }
+
+  eval(script: string, keys: string[], args: CommandArgument[]) {
+    return this.client.send("EVAL", [
+      script,
+      keys.length.toString(),
+      ...keys,
+      ...args,
+    ] as string[]);
+  }
+
+  evalsha(sha: string, keys: string[], args: string[]) {
+    return this.client.send("EVALSHA", [
+      sha,
+      keys.length.toString(),
+      ...keys,
+      ...args,
+    ]);
+  }
+  publish(channel: string, message: string) {
+    return this.client.publish(channel, message);
+  }
+
+  async subscribe(channel: string, listener: MessageListener) {
+    const subscriber = await this.connectSubscriber();
+    let listeners = this.listeners.get(channel);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(channel, listeners);
+      await subscriber.subscribe(channel, this.dispatch);
+    }
+    listeners.add(listener);
+
+    return async () => {
+      if (!listeners.delete(listener) || listeners.size) {
+        return;
+      }
+      this.listeners.delete(channel);
+      if (subscriber.connected) {
+        await subscriber.unsubscribe(channel, this.dispatch);
+      }
+    };
+  }
+
+  private connectSubscriber(): Promise<RedisClient> {
+    if (!this.subscriber) {
+      this.subscriber = this.client.duplicate().then((subscriber) => {
+        //Subscriptions of the server are lost with the connection
+        subscriber.onconnect = () => {
+          for (const channel of this.listeners.keys()) {
+            subscriber.subscribe(channel, this.dispatch).catch((e) => {
+              console.warn(`Could not subscribe to channel ${channel} ${e}`);
+            });
+          }
+        };
+        return subscriber;
+      });
+      this.subscriber.catch(() => {
+        this.subscriber = undefined;
+      });
+    }
+    return this.subscriber;
+  }
+
+  private dispatch = (message: string, channel: string) => {
+    for (const listener of this.listeners.get(channel) ?? []) {
+      listener(message);
+    }
+  };
+}
+
+//The bun client accepts binary arguments just like for `set` even though `send` is typed with strings
+type CommandArgument = string | Uint8Array;
+
+interface QueuedCommand {
+  command: string;
+  args: CommandArgument[];
+}
+
+interface ConnectionPool {
+  acquire(): Promise<RedisClient>;
+  release(client: RedisClient): void;
+}
+
+function encodeFields(
+  fields: Record<string, string | Uint8Array>
+): Record<string, string> {
+  const encoded: Record<string, string> = {};
+  for (const [field, value] of Object.entries(fields)) {
+    encoded[field] =
+      typeof value === "string"
+        ? value
+        : BINARY_PREFIX + Buffer.from(value).toString("base64");
+  }
+  return encoded;
+}
+
+function decodeField(reply: string): Uint8Array {
+  return reply.startsWith(BINARY_PREFIX)
+    ? new Uint8Array(Buffer.from(reply.slice(BINARY_PREFIX.length), "base64"))
+    : toBytes(reply);
+}
+
+/**
+ * Whether a SET replying with the reply changed the value of the key
+ */
+function setApplied(options: CommandArgument[], reply: unknown): boolean {
+  const nx = options.includes("NX");
+  if (!nx && !options.includes("XX")) {
+    return true;
+  }
+  //With GET the old value is returned, which is null if NX set a missing key
+  return nx && options.includes("GET") ? reply === null : reply !== null;
+}
+
+class RedisTransaction implements StoreTransaction {
+  protected commands: QueuedCommand[] = [];
+
+  /**
+   * @param release invoked once the transaction was executed or discarded. Passed for transactions
+   * running on a dedicated connection
+   * @param pool provides a dedicated connection to watch the keys read by the transaction
+   */
+  constructor(
+    protected client: RedisClient,
+    private release?: () => void,
+    private pool?: ConnectionPool
+  ) {}
+
+  get(key: string) {
+    this.commands.push({ command: "GET", args: [key] });
+    return this;
+  }
+
+  set(key: string, value: string | Uint8Array, ...options: SetArgument[]) {
+    this.commands.push({
+      command: "SET",
+      args: [key, value, ...options.map((option) => option.toString())],
+    });
+    return this;
+  }
+
+  del(key: string) {
+    this.commands.push({ command: "DEL", args: [key] });
+    return this;
+  }
+
+  exists(key: string) {
+    this.commands.push({ command: "EXISTS", args: [key] });
+    return this;
+  }
+
+  pexpire(key: string, milliseconds: number) {
+    this.commands.push({
+      command: "PEXPIRE",
+      args: [key, Math.ceil(milliseconds).toString()],
+    });
+    return this;
+  }
+
+  hset(key: string, fields: Record<string, string | Uint8Array>) {
+    this.commands.push({
+      command: "HSET",
+      args: [key, ...Object.entries(encodeFields(fields)).flat()],
+    });
+    return this;
+  }
+
+  async exec(): Promise<unknown[] | null> {
+    try {
+      const readKeys = [
+        ...new Set(
+          this.commands
+            .filter(({ command }) => command === "GET")
+            .map(({ args }) => args[0] as string)
+        ),
+      ];
+      if (!readKeys.length) {
+        return await execCommands(this.client, this.commands);
+      }
+      //Keys changed by others abort the transaction just like the keys watched by the caller
+      if (this.release || !this.pool) {
+        return await this.execReading(this.client, readKeys);
+      }
+
+      const client = await this.pool.acquire();
+      try {
+        for (let attempt = 0; attempt < MAX_READ_ATTEMPTS; attempt++) {
+          const results = await this.execReading(client, readKeys);
+          if (results) {
+            return results;
+          }
+        }
+        throw new Error(
+          `The keys read by the transaction kept changing after ${MAX_READ_ATTEMPTS} attempts`
+        );
+      } finally {
+        this.pool.release(client);
+      }
+    } finally {
+      this.release?.();
+    }
+  }
+
+  /**
+   * Replies of EXEC are decoded as text which corrupts binary values. Values are therefore read with
+   * `getBuffer` before the transaction while their keys are watched. EXEC fails if they are changed in
+   * the meantime, so the values are the ones the transaction would have read.
+   * @returns null if a watched key changed
+   */
+  private async execReading(
+    client: RedisClient,
+    readKeys: string[]
+  ): Promise<unknown[] | null> {
+    const writes = this.commands.filter(({ command }) => command !== "GET");
+    let replies: unknown[] | null;
+    const values = new Map<string, Uint8Array | null>();
+    try {
+      await client.send("WATCH", readKeys);
+      const read = await Promise.all(
+        readKeys.map((key) => client.getBuffer(key))
+      );
+      readKeys.forEach((key, i) => values.set(key, read[i] ?? null));
+      replies = await execCommands(client, writes);
+    } catch (e) {
+      //EXEC clears the watched keys, other failures leave them watched
+      await client.send("UNWATCH", []).catch(() => {
+        //The connection is dropped by the pool if it failed
+      });
+      throw e;
+    }
+    if (!replies) {
+      return null;
+    }
+
+    let i = 0;
+    return this.commands.map(({ command, args }) => {
+      const key = args[0] as string;
+      if (command === "GET") {
+        return values.get(key) ?? null;
+      }
+      const reply = replies[i++];
+      //Reads queued after a write of the same key observe the write
+      if (values.has(key)) {
+        if (command === "SET" && setApplied(args.slice(2), reply)) {
+          values.set(key, toBytes(args[1] as CommandArgument));
+        } else if (command === "DEL") {
+          values.set(key, null);
+        }
+      }
+      return reply;
+    });
+  }
+
+  discard() {
+    if (!this.release) {
+      return;
+    }
+    this.client
+      .send("UNWATCH", [])
+      .catch(() => {
+        //The connection is dropped by the pool if it failed
+      })
+      .finally(this.release);
+  }
+}
+
+class RedisPipeline extends RedisTransaction {
+  override async exec(): Promise<unknown[]> {
+    //Values are read with getBuffer to retain binary values
+    return Promise.all(
+      this.commands.map(({ command, args }) =>
+        command === "GET"
+          ? this.client.getBuffer(args[0] as string)
+          : this.client.send(command, args as string[])
+      )
+    );
+  }
+
+  override discard() {}
+}
+
+/**
+ * Send the commands within MULTI and EXEC
+ * @returns the replies or null if a watched key changed
+ * @throws the first error reply
+ */
+async function execCommands(
+  client: RedisClient,
+  commands: QueuedCommand[]
+): Promise<unknown[] | null> {
+  //All commands are issued within the same tick and are therefore pipelined back to back
+  //without commands of other callers in between. A failing command aborts the EXEC.
+  const replies = await Promise.all([
+    client.send("MULTI", []),
+    ...commands.map(({ command, args }) =>
+      client.send(command, args as string[])
+    ),
+    client.send("EXEC", []),
+  ]);
+  const results = replies[replies.length - 1] as unknown[] | null;
+  if (results === null) {
+    return null;
+  }
+  return results.map((reply) => {
+    if (reply instanceof Error) {
+      throw reply;
+    }
+    return reply;
+  });
+}
@@ -0,0 +1,255 @@
+/**
+ * @file Refresh-ahead scheduler keeping registered keys fresh. The remaining time to live of every key
+ * is checked periodically and keys about to expire are retrieved again in the background, so readers
+ * never wait for a retrieval. Failed refreshes are retried with an exponential backoff.
+ */
+
+export interface RefreshAheadOptions {
+  /**
+   * Number of refreshes running at the same time
+   * @default 4
+   */
+  concurrency?: number;
+  /**
+   * Interval in which the remaining time to live of the registered keys is checked
+   * @default 1 second
+   */
+  checkIntervalInMs?: number;
+  /**
+   * Delay before a failed refresh is retried. Doubled with every consecutive failure
+   * @default 1 second
+   */
+  backoffInMs?: number;
+  /**
+   * Upper bound of the backoff
+   * @default 1 minute
+   */
+  maxBackoffInMs?: number;
+}
+
+export interface WarmResult {
+  /**
+   * Number of keys retrieved and saved
+   */
+  refreshed: number;
+  /**
+   * Number of keys which were still fresh
+   */
+  skipped: number;
+  /**
+   * Number of keys whose retrieval failed. They are retried in the background
+   */
+  failed: number;
+}
+
+/** @internal */
+export interface RefreshTask {
+  key: string;
+  /**
+   * Refresh once the remaining time to live falls below this threshold
+   */
+  refreshBeforeInMs: number;
+  /**
+   * @returns the remaining time to live in milliseconds, a negative number if the key is missing
+   */
+  remainingTtl: () => Promise<number>;
+  refresh: () => Promise<unknown>;
+}
+
+interface ScheduledTask extends RefreshTask {
+  failures: number;
+  retryAt: number;
+  running?: Promise<boolean>;
+}
+
+export class RefreshScheduler {
+  private tasks = new Map<string, ScheduledTask>();
+  private concurrency: number;
+  private checkIntervalInMs: number;
+  private backoffInMs: number;
+  private maxBackoffInMs: number;
+  private timer?: Timer;
+  private checking = false;
+  private stopped = false;
+
+  //Refreshes waiting for a free slot
+  private queue: (() => void)[] = [];
+  private active = 0;
+
+  constructor(
+    options?: RefreshAheadOptions,
+    private onerror?: (key: string, error: unknown) => void
+  ) {
+    this.concurrency = Math.max(1, options?.concurrency ?? 4);
+    this.checkIntervalInMs = options?.checkIntervalInMs ?? 1000;
+    this.backoffInMs = options?.backoffInMs ?? 1000;
+    this.maxBackoffInMs = options?.maxBackoffInMs ?? 60_000;
+  }
+
+  /**
+   * Keep the key fresh. Replaces a task registered for the same key
+   */
+  register(task: RefreshTask) {
+    if (this.stopped) {
+      throw new Error("The refresh scheduler is stopped");
+    }
+    this.tasks.set(task.key, { ...task, failures: 0, retryAt: 0 });
+    if (!this.timer) {
+      this.timer = setInterval(() => {
+        this.check();
+      }, this.checkIntervalInMs);
+      //Refreshing does not keep the process alive
+      this.timer.unref();
+    }
+  }
+
+  unregister(key: string) {
+    this.tasks.delete(key);
+    if (!this.tasks.size) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  has(key: string): boolean {
+    return this.tasks.has(key);
+  }
+
+  /**
+   * Refresh the keys which are missing or about to expire
+   * @param keys - Registered keys to warm. All registered keys if omitted
+   */
+  async warm(keys?: string[]): Promise<WarmResult> {
+    const tasks = (keys ?? [...this.tasks.keys()]).map((key) => {
+      const task = this.tasks.get(key);
+      if (!task) {
+        throw new Error(`No refresh is registered for key ${key}`);
+      }
+      return task;
+    });
+
+    const result: WarmResult = { refreshed: 0, skipped: 0, failed: 0 };
+    await Promise.all(
+      tasks.map(async (task) => {
+        const refreshed = await this.refreshIfDue(task, true);
+        if (refreshed === undefined) {
+          result.skipped++;
+        } else if (refreshed) {
+          result.refreshed++;
+        } else {
+          result.failed++;
+        }
+      })
+    );
+    return result;
+  }
+
+  /**
+   * Stop checking keys. Running refreshes complete, queued ones are skipped
+   */
+  stop() {
+    this.stopped = true;
+    clearInterval(this.timer);
+    this.timer = undefined;
+    this.tasks.clear();
+    //Queued refreshes find their task unregistered and release their slot right away
+    const queued = this.queue.splice(0);
+    this.active += queued.length;
+    for (const next of queued) {
+      next();
+    }
+  }
+
+  [Symbol.dispose]() {
+    this.stop();
+  }
+
+  private async check() {
+    //Slow stores must not pile up checks
+    if (this.checking) {
+      return;
+    }
+    this.checking = true;
+    try {
+      await Promise.all(
+        [...this.tasks.values()].map((task) => this.refreshIfDue(task, false))
+      );
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  /**
+   * @param ignoreBackoff - Refresh failed keys before their backoff elapsed
+   * @returns undefined if the key is still fresh, otherwise whether the refresh succeeded
+   */
+  private async refreshIfDue(
+    task: ScheduledTask,
+    ignoreBackoff: boolean
+  ): Promise<boolean | undefined> {
+    if (task.running) {
+      return task.running;
+    }
+    if (!ignoreBackoff && Date.now() < task.retryAt) {
+      return undefined;
+    }
+    try {
+      if ((await task.remainingTtl()) > task.refreshBeforeInMs) {
+        return undefined;
+      }
+    } catch (e) {
+      this.onerror?.(task.key, e);
+      return false;
+    }
+    //Another check may have started the refresh while the ttl was read
+    task.running ??= this.run(task).finally(() => {
+      task.running = undefined;
+    });
+    return task.running;
+  }
+
+  private async run(task: ScheduledTask): Promise<boolean> {
+    await this.acquire();
+    try {
+      //Unregistered or stopped while queued
+      if (this.tasks.get(task.key) !== task) {
+        return false;
+      }
+      await task.refresh();
+      task.failures = 0;
+      task.retryAt = 0;
+      return true;
+    } catch (e) {
+      task.failures++;
+      task.retryAt =
+        Date.now() +
+        Math.min(
+          this.backoffInMs * 2 ** (task.failures - 1),
+          this.maxBackoffInMs
+        );
+      this.onerror?.(task.key, e);
+      return false;
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire(): Promise<void> {
+    if (this.active < this.concurrency) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => {
+      this.queue.push(resolve);
+    });
+  }
+
+  private release() {
+    const next = this.queue.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * @file Lua scripts invoked by their SHA1 digest so the source is only transferred once.
+ * The script is loaded with EVAL whenever the server does not know the digest, e.g. on the
+ * first call or after the server restarted or flushed its script cache.
+ */
+
+import type { CacheStore } from "./store";
+
+export type ScriptArgument = string | number;
+
+export interface ScriptOptions<Result> {
+  /**
+   * Number of leading arguments passed as KEYS. They are prefixed like every key of the client,
+   * the remaining arguments are passed as ARGV.
+   * @default 0
+   */
+  keys?: number;
+  /**
+   * Convert the reply of the script
+   * @default the reply as is
+   */
+  decode?: (reply: unknown) => Result;
+}
+
+export type ScriptFunction<Args extends ScriptArgument[], Result> = ((
+  ...args: Args
+) => Promise<Result>) & {
+  /**
+   * SHA1 digest the script is invoked by
+   */
+  readonly sha: string;
+};
+
+const isNoScriptError = (e: unknown) =>
+  e instanceof Error && e.message.includes("NOSCRIPT");
+
+/**
+ * @param keyPrefix - prepended to the KEYS of every invocation
+ * @throws if the store is not able to evaluate scripts
+ */
+export function defineScript<Args extends ScriptArgument[], Result>(
+  store: CacheStore,
+  source: string,
+  keyPrefix: string,
+  options?: ScriptOptions<Result>
+): ScriptFunction<Args, Result> {
+  const evaluate = store.eval?.bind(store);
+  if (!evaluate) {
+    throw new Error(
+      "Scripts are only supported by stores able to evaluate them"
+    );
+  }
+  const sha = new Bun.CryptoHasher("sha1").update(source).digest("hex");
+  const keyCount = options?.keys ?? 0;
+  const decode = options?.decode ?? ((reply: unknown) => reply as Result);
+
+  const script = async (...args: Args) => {
+    const keys = args
+      .slice(0, keyCount)
+      .map((key) => keyPrefix + key.toString());
+    const argv = args.slice(keyCount).map((arg) => arg.toString());
+
+    if (!store.evalsha) {
+      return decode(await evaluate(source, keys, argv));
+    }
+    try {
+      return decode(await store.evalsha(sha, keys, argv));
+    } catch (e) {
+      if (!isNoScriptError(e)) {
+        throw e;
+      }
+      //EVAL adds the script to the script cache of the server
+      return decode(await evaluate(source, keys, argv));
+    }
+  };
+  return Object.assign(script, { sha });
+}
@@ -0,0 +1,189 @@
+/**
+ * @file Storage backend abstraction used by the `CacheClient`.
+ * Values are written as strings or bytes and always read back as bytes.
+ */
+
+/**
+ * Arguments accepted by `CacheStore.set` after the value.
+ * Mirrors the redis SET command: EX seconds | PX milliseconds | EXAT timestamp | PXAT timestamp | KEEPTTL, NX | XX, GET
+ */
+export type SetArgument =
+  | "EX"
+  | "PX"
+  | "EXAT"
+  | "PXAT"
+  | "NX"
+  | "XX"
+  | "GET"
+  | "KEEPTTL"
+  | string
+  | number;
+
+export interface ScanOptions {
+  /**
+   * Glob style pattern keys have to match
+   */
+  match?: string;
+  /**
+   * Hint for the amount of keys returned per iteration
+   */
+  count?: number;
+  /**
+   * Only return keys holding a value of this type
+   */
+  type?: string;
+}
+
+export type MessageListener = (message: string) => void;
+
+export interface StoreTransaction {
+  get(key: string): StoreTransaction;
+  set(
+    key: string,
+    value: string | Uint8Array,
+    ...options: SetArgument[]
+  ): StoreTransaction;
+  del(key: string): StoreTransaction;
+  exists(key: string): StoreTransaction;
+  pexpire(key: string, milliseconds: number): StoreTransaction;
+  hset(
+    key: string,
+    fields: Record<string, string | Uint8Array>
+  ): StoreTransaction;
+  /**
+   * Execute all queued commands
+   * @returns the reply of each command in the order they were queued or null if a watched key changed.
+   * Replies mirror redis except for GET which resolves to bytes.
+   */
+  exec(): Promise<unknown[] | null>;
+  /**
+   * Drop the queued commands without executing them and stop watching keys
+   */
+  discard(): void;
+}
+
+export interface CacheStore {
+  readonly connected: boolean;
+  connect(): Promise<void>;
+  close(): void;
+
+  /**
+   * Callback fired when the store connects
+   */
+  onconnect: (() => void) | null;
+  /**
+   * Callback fired when the store disconnects
+   */
+  onclose: ((error: Error) => void) | null;
+
+  get(key: string): Promise<Uint8Array | null>;
+  /**
+   * Read multiple keys at once. The redis store pipelines one GET per key instead of sending MGET
+   * to keep binary values intact.
+   * @returns the values in the order of the keys
+   */
+  mget(keys: string[]): Promise<(Uint8Array | null)[]>;
+  /**
+   * Set key to hold the value
+   * @returns "OK", null if a NX/XX condition was not met, or the old value if GET was passed
+   */
+  set(
+    key: string,
+    value: string | Uint8Array,
+    ...options: SetArgument[]
+  ): Promise<"OK" | string | null>;
+  del(key: string): Promise<number>;
+  /**
+   * Delete keys without blocking. Memory is reclaimed in the background
+   * @returns the number of keys removed
+   */
+  unlink(keys: string[]): Promise<number>;
+  exists(key: string): Promise<boolean>;
+  /**
+   * Increment the integer value of a key. Missing keys start at 0
+   * @returns the value after the increment
+   */
+  incr(key: string): Promise<number>;
+  /**
+   * Set the time to live of a key
+   * @returns 1 if the timeout was set, 0 if the key does not exist
+   */
+  pexpire(key: string, milliseconds: number): Promise<number>;
+  /**
+   * Remaining time to live of a key in milliseconds
+   * @returns -2 if the key does not exist, -1 if it does not expire
+   */
+  pttl(key: string): Promise<number>;
+  /**
+   * Set fields of the hash stored at key. Missing hashes are created
+   * @returns the number of fields added
+   */
+  hset(
+    key: string,
+    fields: Record<string, string | Uint8Array>
+  ): Promise<number>;
+  /**
+   * Read fields of the hash stored at key
+   * @returns the values in the order of the fields, null for missing fields
+   */
+  hmget(key: string, fields: string[]): Promise<(Uint8Array | null)[]>;
+  /**
+   * Read all fields of the hash stored at key
+   * @returns an empty object if the key does not exist
+   */
+  hgetall(key: string): Promise<Record<string, Uint8Array>>;
+  /**
+   * Increment the integer value of a field of the hash stored at key. Missing fields start at 0
+   * @returns the value after the increment
+   */
+  hincrby(key: string, field: string, increment: number): Promise<number>;
+  /**
+   * Incrementally iterate the keyspace
+   * @param cursor "0" to start a new iteration
+   * @returns the cursor of the next iteration ("0" if the iteration completed) and the keys found
+   */
+  scan(cursor: string, options?: ScanOptions): Promise<[string, string[]]>;
+  /**
+   * Queue commands which are executed atomically
+   */
+  multi(): StoreTransaction;
+  /**
+   * Queue commands which are sent in a single round trip without atomicity guarantees
+   */
+  pipeline(): StoreTransaction;
+  /**
+   * Watch keys for changes
+   * @returns a transaction which is aborted if one of the keys changed before it is executed
+   */
+  watch(keys: string[]): Promise<StoreTransaction>;
+
+  /**
+   * Evaluate a lua script. Features relying on scripts are only available for stores implementing it.
+   * Arguments may hold binary values.
+   */
+  eval?(
+    script: string,
+    keys: string[],
+    args: (string | Uint8Array)[]
+  ): Promise<unknown>;
+  /**
+   * Evaluate a lua script cached by the server
+   * @param sha - SHA1 digest of the script
+   * @throws an error containing NOSCRIPT if the server does not know the script
+   */
+  evalsha?(sha: string, keys: string[], args: string[]): Promise<unknown>;
+
+  /**
+   * Send a message to all subscribers of the channel
+   * @returns the number of subscribers which received the message
+   */
+  publish?(channel: string, message: string): Promise<number>;
+  /**
+   * Receive the messages published to the channel
+   * @returns function removing the listener
+   */
+  subscribe?(
+    channel: string,
+    listener: MessageListener
+  ): Promise<() => Promise<void>>;
+}
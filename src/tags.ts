@@ -0,0 +1,144 @@
+/**
+ * @file Tag index mapping a tag to the keys depending on it.
+ * Every tag is saved as a redis set holding the tagged keys. The set lives as long as its
+ * longest living member. Members whose keys already expired are pruned after each write.
+ * Scripts only touch keys passed in KEYS, members are read first and passed to a second script.
+ */
+
+import type { CacheStore } from "./store";
+
+//Number of members checked for expiration after each write
+const PRUNE_SAMPLE_SIZE = 10;
+
+//KEYS[1]: tagged key, KEYS[2..]: tag sets, ARGV[1]: value, ARGV[2]: ttl of the tagged key in ms or -1,
+//ARGV[3]: prune sample size. Saves the value and tags it atomically. Returns a sample of the members of each set
+const SET_TAGGED_SCRIPT = `local ttl = tonumber(ARGV[2])
+if ttl >= 0 then
+  redis.call("SET", KEYS[1], ARGV[1], "PX", ttl)
+else
+  redis.call("SET", KEYS[1], ARGV[1])
+end
+local samples = {}
+for i = 2, #KEYS do
+  local tagKey = KEYS[i]
+  local isNew = redis.call("EXISTS", tagKey) == 0
+  table.insert(samples, redis.call("SRANDMEMBER", tagKey, ARGV[3]))
+  redis.call("SADD", tagKey, KEYS[1])
+  if isNew then
+    if ttl >= 0 then
+      redis.call("PEXPIRE", tagKey, ttl)
+    end
+  else
+    local current = redis.call("PTTL", tagKey)
+    if current >= 0 then
+      if ttl < 0 then
+        redis.call("PERSIST", tagKey)
+      elseif current < ttl then
+        redis.call("PEXPIRE", tagKey, ttl)
+      end
+    end
+  end
+end
+return samples`;
+
+//KEYS[1]: tag set, KEYS[2..]: members. Removes members whose key expired
+const PRUNE_SCRIPT = `for i = 2, #KEYS do
+  if redis.call("EXISTS", KEYS[i]) == 0 then
+    redis.call("SREM", KEYS[1], KEYS[i])
+  end
+end
+return 1`;
+
+//KEYS: tag sets
+const MEMBERS_SCRIPT = `local members = {}
+for _, tagKey in ipairs(KEYS) do
+  for _, member in ipairs(redis.call("SMEMBERS", tagKey)) do
+    table.insert(members, member)
+  end
+end
+return members`;
+
+//KEYS[1..ARGV[1]]: tag sets, KEYS[ARGV[1] + 1..]: members. Returns the deleted keys.
+//Members added after they were read stay in the sets
+const INVALIDATE_SCRIPT = `local tagCount = tonumber(ARGV[1])
+local deleted = {}
+for i = tagCount + 1, #KEYS do
+  if redis.call("DEL", KEYS[i]) == 1 then
+    table.insert(deleted, KEYS[i])
+  end
+  for t = 1, tagCount do
+    redis.call("SREM", KEYS[t], KEYS[i])
+  end
+end
+return deleted`;
+
+function evalScript(store: CacheStore) {
+  if (!store.eval) {
+    throw new Error(
+      "Tags are only supported by stores able to evaluate scripts"
+    );
+  }
+  return store.eval.bind(store);
+}
+
+/**
+ * Save the value and add its key to the index of each tag in a single atomic step
+ * @param tagKeys redis keys of the tag sets
+ * @param key the tagged key
+ * @param ttlInMs lifetime of the value or -1 if it does not expire
+ */
+export async function setTaggedKey(
+  store: CacheStore,
+  tagKeys: string[],
+  key: string,
+  value: string | Uint8Array,
+  ttlInMs: number
+): Promise<void> {
+  const evaluate = evalScript(store);
+  const samples = (await evaluate(
+    SET_TAGGED_SCRIPT,
+    [key, ...tagKeys],
+    [
+      value,
+      ttlInMs < 0 ? "-1" : Math.ceil(ttlInMs).toString(),
+      PRUNE_SAMPLE_SIZE.toString(),
+    ]
+  )) as string[][];
+
+  //Pruning only shrinks the index, failures are not worth failing the write for
+  await Promise.all(
+    tagKeys.map((tagKey, i) => {
+      const members = samples[i]?.filter((member) => member !== key);
+      return members?.length
+        ? evaluate(PRUNE_SCRIPT, [tagKey, ...members], []).catch((e) => {
+            console.warn(`Could not prune tag ${tagKey} ${e}`);
+          })
+        : undefined;
+    })
+  );
+}
+
+/**
+ * Delete all keys referenced by the tags and remove them from the tag sets
+ * @returns the keys which were deleted
+ */
+export async function deleteTaggedKeys(
+  store: CacheStore,
+  tagKeys: string[]
+): Promise<string[]> {
+  if (tagKeys.length === 0) {
+    return [];
+  }
+  const evaluate = evalScript(store);
+  const members = [
+    ...new Set((await evaluate(MEMBERS_SCRIPT, tagKeys, [])) as string[]),
+  ];
+  if (members.length === 0) {
+    return [];
+  }
+  return (await evaluate(
+    INVALIDATE_SCRIPT,
+    [...tagKeys, ...members],
+    [tagKeys.length.toString()]
+  )) as string[];
+}
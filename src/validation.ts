@@ -0,0 +1,58 @@
+/**
+ * @file Validation of cached values against schemas implementing the Standard Schema
+ * interface (zod, valibot, arktype, ...) or plain type guards.
+ * The interface is inlined as recommended by https://standardschema.dev
+ */
+
+export interface StandardSchemaIssue {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+}
+
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaIssue> };
+
+export interface StandardSchema<Input = unknown, Output = Input> {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown
+    ) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output };
+  };
+}
+
+export type TypeGuard<T> = (value: unknown) => value is T;
+
+/**
+ * A Standard Schema compatible schema or a type guard
+ */
+export type Validator<T> = StandardSchema<unknown, T> | TypeGuard<T>;
+
+export type ValidationResult<T> =
+  | { success: true; value: T }
+  | { success: false; issues: ReadonlyArray<StandardSchemaIssue> };
+
+/**
+ * Check a value. Schemas may transform the value, the transformed value is returned
+ */
+export async function validate<T>(
+  validator: Validator<T>,
+  value: unknown
+): Promise<ValidationResult<T>> {
+  if (typeof validator === "function") {
+    return validator(value)
+      ? { success: true, value }
+      : {
+          success: false,
+          issues: [{ message: "Value was rejected by the type guard" }],
+        };
+  }
+  const result = await validator["~standard"].validate(value);
+  if (result.issues) {
+    return { success: false, issues: result.issues };
+  }
+  return { success: true, value: result.value };
+}
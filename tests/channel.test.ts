@@ -0,0 +1,105 @@
+import { describe, expect, test } from "bun:test";
+import { CacheClient, MemoryStore, msgpackCodec } from "..";
+
+//Resolves with the first messages received by the handler
+const receive = <T>(count: number) => {
+  const messages: T[] = [];
+  let done: (messages: T[]) => void;
+  const received = new Promise<T[]>((resolve) => {
+    done = resolve;
+  });
+  const handler = (message: T) => {
+    messages.push(message);
+    if (messages.length === count) {
+      done(messages);
+    }
+  };
+  return { handler, received };
+};
+
+describe("channel", async () => {
+  test("Publish and subscribe", async () => {
+    const cacheClient = await CacheClient.create({ store: new MemoryStore() });
+    const channel = cacheClient.channel<{ id: number } | string>("events");
+    const { handler, received } = receive<{ id: number } | string>(2);
+    const subscription = await channel.subscribe(handler);
+
+    expect(await channel.publish({ id: 1 })).toBe(1);
+    await channel.publish("text");
+    expect(await received).toEqual([{ id: 1 }, "text"]);
+
+    await subscription.unsubscribe();
+    expect(await channel.publish({ id: 2 })).toBe(0);
+    cacheClient.close();
+  });
+
+  test("Keep the type of string messages", async () => {
+    const cacheClient = await CacheClient.create({ store: new MemoryStore() });
+    const channel = cacheClient.channel<string>("strings");
+    const { handler, received } = receive<string>(3);
+    await channel.subscribe(handler);
+
+    await channel.publish("42");
+    await channel.publish("true");
+    await channel.publish('{"id":1}');
+    expect(await received).toEqual(["42", "true", '{"id":1}']);
+    cacheClient.close();
+  });
+
+  test("Serialize binary messages", async () => {
+    const cacheClient = await CacheClient.create({
+      store: new MemoryStore(),
+      codec: msgpackCodec,
+      compression: { algorithm: "gzip", thresholdInBytes: 100 },
+    });
+    const channel = cacheClient.channel<{ ids: number[] }>("binary");
+    const { handler, received } = receive<{ ids: number[] }>(2);
+    await channel.subscribe(handler);
+
+    const large = { ids: Array.from({ length: 100 }, (_, i) => i) };
+    await channel.publish({ ids: [1] });
+    await channel.publish(large);
+    expect(await received).toEqual([{ ids: [1] }, large]);
+    cacheClient.close();
+  });
+
+  test("Prefix channels of namespaces", async () => {
+    const cacheClient = await CacheClient.create({ store: new MemoryStore() });
+    const { handler, received } = receive<number>(1);
+    await cacheClient.channel<number>("users:events").subscribe(handler);
+
+    expect(cacheClient.namespace("users").channel("events").name).toBe(
+      "users:events"
+    );
+    await cacheClient.namespace("users").channel<number>("events").publish(1);
+    expect(await received).toEqual([1]);
+    cacheClient.close();
+  });
+
+  test("Keep receiving if a handler fails", async () => {
+    const cacheClient = await CacheClient.create({ store: new MemoryStore() });
+    const channel = cacheClient.channel<number>("failing");
+    const { handler, received } = receive<number>(2);
+    await channel.subscribe(async (message) => {
+      handler(message);
+      throw new Error("Handler failed");
+    });
+
+    await channel.publish(1);
+    await channel.publish(2);
+    expect(await received).toEqual([1, 2]);
+    cacheClient.close();
+  });
+
+  test("Unsubscribe when disposed", async () => {
+    const cacheClient = await CacheClient.create({ store: new MemoryStore() });
+    const channel = cacheClient.channel<number>("disposed");
+    {
+      const subscription = await channel.subscribe(() => {});
+      expect(await channel.publish(1)).toBe(1);
+      await subscription[Symbol.asyncDispose]();
+    }
+    expect(await channel.publish(1)).toBe(0);
+    cacheClient.close();
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, test } from "bun:test";
+import {
+  CircuitBreaker,
+  type CircuitState,
+  StoreUnavailableError,
+} from "../src/circuitBreaker";
+
+const fail = async () => {
+  throw new Error("Connection refused");
+};
+
+describe("CircuitBreaker", () => {
+  test("Open once the error rate is exceeded", async () => {
+    const breaker = new CircuitBreaker({
+      minimumRequests: 4,
+      errorRateThreshold: 0.5,
+    });
+    const changes: CircuitState[] = [];
+    breaker.onstatechange = (state) => changes.push(state);
+
+    await breaker.run(async () => 1);
+    await breaker.run(async () => 1);
+    await expect(breaker.run(fail)).rejects.toThrow("Connection refused");
+    expect(breaker.state).toBe("closed");
+    await expect(breaker.run(fail)).rejects.toThrow("Connection refused");
+    expect(breaker.state).toBe("open");
+
+    let called = false;
+    await expect(
+      breaker.run(async () => {
+        called = true;
+      })
+    ).rejects.toBeInstanceOf(StoreUnavailableError);
+    expect(called).toBe(false);
+    expect(changes).toEqual(["open"]);
+  });
+
+  test("Count timeouts as failures", async () => {
+    const breaker = new CircuitBreaker({ minimumRequests: 1, timeoutInMs: 10 });
+
+    await expect(breaker.run(() => Bun.sleep(100))).rejects.toThrow(
+      "Store operation timed out after 10ms"
+    );
+    expect(breaker.state).toBe("open");
+  });
+
+  test("Close after a successful probe", async () => {
+    const breaker = new CircuitBreaker({
+      minimumRequests: 1,
+      resetTimeoutInMs: 20,
+    });
+    const changes: CircuitState[] = [];
+    breaker.onstatechange = (state) => changes.push(state);
+
+    await expect(breaker.run(fail)).rejects.toThrow();
+    await Bun.sleep(25);
+
+    //Only a single probe is let through
+    const probe = breaker.run(() => Bun.sleep(10).then(() => 1));
+    await expect(breaker.run(async () => 2)).rejects.toThrow(
+      "Circuit breaker is half open"
+    );
+    expect(await probe).toBe(1);
+
+    expect(breaker.state).toBe("closed");
+    expect(changes).toEqual(["open", "halfOpen", "closed"]);
+  });
+
+  test("Open again after a failed probe", async () => {
+    const breaker = new CircuitBreaker({
+      minimumRequests: 1,
+      resetTimeoutInMs: 20,
+    });
+
+    await expect(breaker.run(fail)).rejects.toThrow();
+    await Bun.sleep(25);
+    await expect(breaker.run(fail)).rejects.toThrow("Connection refused");
+
+    expect(breaker.state).toBe("open");
+    await expect(breaker.run(async () => 1)).rejects.toThrow(
+      "Circuit breaker is open"
+    );
+  });
+});
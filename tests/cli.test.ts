@@ -0,0 +1,117 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { CacheClient, MemoryStore, SECONDS } from "..";
+import { runCli } from "../src/cli";
+
+describe("cli", async () => {
+  let cacheClient: CacheClient;
+  let output: string[];
+  let errors: string[];
+
+  const run = (...args: string[]) => {
+    output = [];
+    errors = [];
+    return runCli(args, {
+      client: cacheClient,
+      write: (line) => output.push(line),
+      writeError: (line) => errors.push(line),
+    });
+  };
+
+  beforeAll(async () => {
+    cacheClient = await CacheClient.create({ store: new MemoryStore() });
+    await cacheClient.setValue("user:1", { name: "Ada" });
+    await cacheClient.setValue("user:2", { name: "Grace" });
+    await cacheClient.setValue("order:1", 1, { duration: 90 * SECONDS });
+  });
+
+  afterAll(async () => {
+    cacheClient.close();
+  });
+
+  test("List keys", async () => {
+    expect(await run("list", "user:*")).toBe(0);
+    expect(output.sort()).toEqual(["user:1", "user:2"]);
+
+    expect(await run("list", "user:*", "--json")).toBe(0);
+    expect(JSON.parse(output.join("\n")).sort()).toEqual(["user:1", "user:2"]);
+  });
+
+  test("Print decoded values", async () => {
+    expect(await run("get", "user:1")).toBe(0);
+    expect(output[0]).toContain("Ada");
+    expect(output[0]).toContain("codec:       json");
+
+    expect(await run("get", "user:1", "--json")).toBe(0);
+    expect(JSON.parse(output.join("\n"))).toMatchObject({
+      kind: "value",
+      value: { name: "Ada" },
+      codec: "json",
+      ttlInMs: -1,
+    });
+
+    await cacheClient.getValueOrRetrieve("cli:null", async () => null);
+    expect(await run("get", "cli:null")).toBe(0);
+    expect(output[0]).toStartWith("(cached null)");
+
+    expect(await run("get", "missing")).toBe(1);
+    expect(output[0]).toBe("Key missing does not exist");
+  });
+
+  test("Print the time to live", async () => {
+    expect(await run("ttl", "order:1")).toBe(0);
+    expect(output[0]).toMatch(/^1m (30s|29s \d+ms)$/);
+    expect(await run("ttl", "user:1", "--json")).toBe(0);
+    expect(JSON.parse(output.join("\n"))).toEqual({
+      key: "user:1",
+      ttlInMs: -1,
+    });
+    expect(await run("ttl", "missing")).toBe(1);
+  });
+
+  test("Count keys per prefix", async () => {
+    expect(await run("stats", "--json")).toBe(0);
+    const stats = JSON.parse(output.join("\n"));
+    expect(stats.prefixes.user).toBe(2);
+    expect(stats.prefixes.order).toBe(1);
+    expect(stats.server).toBeUndefined();
+  });
+
+  test("Delete keys", async () => {
+    await cacheClient.setValue("session:1", "a");
+    await cacheClient.setValue("session:2", "b");
+    await cacheClient.setValue("session*", "c");
+
+    expect(await run("clear-prefix", "session:", "--dry-run")).toBe(0);
+    expect(output).toEqual(["Would delete 2 keys"]);
+    expect(await run("clear-prefix", "session:")).toBe(0);
+    expect(output).toEqual(["Deleted 2 keys"]);
+    expect(await cacheClient.exists("session*")).toBe(true);
+
+    expect(await run("del", "session*", "missing", "--json")).toBe(0);
+    expect(JSON.parse(output.join("\n"))).toEqual({ deleted: 1 });
+  });
+
+  test("Address keys of a namespace", async () => {
+    await cacheClient.namespace("tenant").setValue("key", "value");
+
+    expect(await run("list", "-n", "tenant")).toBe(0);
+    expect(output).toEqual(["key"]);
+    expect(await run("get", "key", "--namespace", "tenant", "--json")).toBe(0);
+    expect(JSON.parse(output.join("\n")).value).toBe("value");
+  });
+
+  test("Reject invalid usage", async () => {
+    expect(await run()).toBe(2);
+    expect(await run("unknown")).toBe(2);
+    expect(errors[0]).toBe("Unknown command unknown");
+    expect(await run("get")).toBe(2);
+    expect(await run("list", "--unknown")).toBe(2);
+    expect(await run("--help")).toBe(0);
+    expect(output[0]).toStartWith("Usage: bun-cache");
+  });
+
+  test("Watch requires redis", async () => {
+    expect(await run("watch")).toBe(1);
+    expect(errors[0]).toBe("watch failed: watch is only supported for redis");
+  });
+});
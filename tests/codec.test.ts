@@ -0,0 +1,88 @@
+import { describe, expect, test } from "bun:test";
+import {
+  type Codec,
+  codecName,
+  decodeValue,
+  encodeValue,
+  jsonCodec,
+  msgpackCodec,
+  richCodec,
+  toBytes,
+} from "../src/codec";
+
+const codecs = new Map<string, Codec>(
+  [jsonCodec, richCodec, msgpackCodec].map((codec) => [codec.name, codec])
+);
+
+const roundTrip = (codec: Codec, value: unknown) =>
+  decodeValue(toBytes(encodeValue(codec, value)), codecs);
+
+describe("codec", () => {
+  test("Json values are written without header", () => {
+    const encoded = encodeValue(jsonCodec, { foo: "bar" });
+
+    expect(encoded).toBe('{"foo":"bar"}');
+    expect(codecName(toBytes(encoded))).toBe("json");
+  });
+
+  test("Rich types", () => {
+    const value = {
+      date: new Date("2024-01-01T12:00:00.000Z"),
+      map: new Map<string, unknown>([["a", new Set([1, 2])]]),
+      big: 12345678901234567890n,
+      regex: /foo/gi,
+      bytes: new Uint8Array([1, 2, 255]),
+      floats: new Float64Array([1.5, -2]),
+      list: [1, undefined, "a"],
+    };
+
+    const res = roundTrip(richCodec, value) as typeof value;
+
+    expect(res.date).toEqual(value.date);
+    expect(res.map).toEqual(value.map);
+    expect(res.big).toBe(value.big);
+    expect(res.regex).toEqual(value.regex);
+    expect(res.bytes).toEqual(value.bytes);
+    expect(res.floats).toEqual(value.floats);
+    expect(res.list).toEqual(value.list);
+  });
+
+  test("Msgpack", () => {
+    const value = {
+      small: 1,
+      negative: -200,
+      large: 2 ** 40,
+      float: 1.25,
+      text: "a".repeat(300),
+      nested: [true, false, null, { foo: "bar" }],
+      bytes: new Uint8Array([0, 1, 2]),
+      date: new Date("2024-01-01T12:00:00.123Z"),
+      big: 2n ** 63n,
+    };
+
+    const encoded = encodeValue(msgpackCodec, value);
+
+    expect(codecName(toBytes(encoded))).toBe("msgpack");
+    expect(roundTrip(msgpackCodec, value)).toEqual(value);
+  });
+
+  test("Msgpack small bigints", () => {
+    const value = [10n, -5n, 0n, 2n ** 53n - 1n, 2n ** 53n, -(2n ** 63n), 5];
+
+    expect(roundTrip(msgpackCodec, value)).toEqual(value);
+  });
+
+  test("Read mixed codecs", () => {
+    expect(roundTrip(jsonCodec, [1, 2])).toEqual([1, 2]);
+    expect(roundTrip(richCodec, [1, 2])).toEqual([1, 2]);
+    expect(roundTrip(msgpackCodec, [1, 2])).toEqual([1, 2]);
+  });
+
+  test("Reject unknown codec", () => {
+    const custom: Codec = { ...jsonCodec, name: "custom" };
+
+    expect(() => roundTrip(custom, 1)).toThrow(
+      "No codec registered to decode values of custom"
+    );
+  });
+});
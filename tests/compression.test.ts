@@ -0,0 +1,66 @@
+import { describe, expect, test } from "bun:test";
+import { Compressor, compressionOf } from "../src/compression";
+
+const textDecoder = new TextDecoder();
+
+const largeValue = JSON.stringify(
+  Array.from({ length: 200 }, (_, i) => ({ id: i, name: "vehicle" }))
+);
+
+describe("compression", () => {
+  for (const algorithm of ["gzip", "deflate", "zstd"] as const) {
+    test(`Round trip ${algorithm}`, () => {
+      const compressor = new Compressor({ algorithm });
+
+      const compressed = compressor.compress(largeValue);
+      expect(compressed).toBeInstanceOf(Uint8Array);
+      expect(compressionOf(compressed as Uint8Array)).toBe(algorithm);
+
+      const res = compressor.decompress(compressed as Uint8Array);
+      expect(textDecoder.decode(res)).toBe(largeValue);
+    });
+  }
+
+  test("Skip values below threshold", () => {
+    const compressor = new Compressor({ thresholdInBytes: 1024 });
+
+    expect(compressor.compress("small")).toBe("small");
+  });
+
+  test("Skip compression if disabled", () => {
+    const compressor = new Compressor();
+
+    expect(compressor.compress(largeValue)).toBe(largeValue);
+  });
+
+  test("Read uncompressed values", () => {
+    const compressor = new Compressor({ algorithm: "gzip" });
+    const value = new TextEncoder().encode(largeValue);
+
+    expect(compressor.decompress(value)).toBe(value);
+  });
+
+  test("Reject levels out of range of the algorithm", () => {
+    expect(
+      () => new Compressor({ algorithm: "gzip", level: 12 as never })
+    ).toThrow(RangeError);
+    expect(
+      () => new Compressor({ algorithm: "zstd", level: 0 as never })
+    ).toThrow(RangeError);
+    expect(
+      () => new Compressor({ algorithm: "zstd", level: 19 })
+    ).not.toThrow();
+  });
+
+  test("Stats", () => {
+    const compressor = new Compressor({ algorithm: "gzip", level: 9 });
+
+    compressor.decompress(compressor.compress(largeValue) as Uint8Array);
+    const stats = compressor.stats();
+
+    expect(stats.compressed).toBe(1);
+    expect(stats.decompressed).toBe(1);
+    expect(stats.uncompressedBytes).toBe(largeValue.length);
+    expect(stats.ratio).toBeLessThan(0.5);
+  });
+});
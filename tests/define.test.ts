@@ -0,0 +1,87 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { CacheClient, MemoryStore, SECONDS } from "..";
+
+interface User {
+  id: string;
+  name: string;
+}
+
+describe("define", async () => {
+  let cacheClient: CacheClient;
+  let retrievals = 0;
+
+  beforeAll(async () => {
+    cacheClient = await CacheClient.create({ store: new MemoryStore() });
+  });
+
+  afterAll(async () => {
+    cacheClient.close();
+  });
+
+  const defineUsers = (name: string) =>
+    cacheClient.define<{ id: string }, User>({
+      name,
+      key: ({ id }) => id,
+      duration: 10 * SECONDS,
+      retrieve: ({ id }) => {
+        retrievals++;
+        return id === "missing" ? null : { id, name: `User ${id}` };
+      },
+    });
+
+  test("Retrieve missing values once", async () => {
+    const users = defineUsers("define:get");
+    retrievals = 0;
+
+    expect(await users.get({ id: "1" })).toEqual({ id: "1", name: "User 1" });
+    expect(await users.get({ id: "1" })).toEqual({ id: "1", name: "User 1" });
+    expect(retrievals).toBe(1);
+    expect(users.key({ id: "1" })).toBe("_define:get_1");
+    expect(await cacheClient.ttlOf("_define:get_1")).toBeGreaterThan(0);
+  });
+
+  test("Peek without retrieving", async () => {
+    const users = defineUsers("define:peek");
+    retrievals = 0;
+
+    expect(await users.peek({ id: "1" })).toBe(null);
+    await users.get({ id: "1" });
+    expect(await users.peek({ id: "1" })).toEqual({ id: "1", name: "User 1" });
+    await users.get({ id: "missing" });
+    expect(await users.peek({ id: "missing" })).toBe(null);
+    expect(retrievals).toBe(2);
+  });
+
+  test("Set, invalidate and refresh values", async () => {
+    const users = defineUsers("define:write");
+    retrievals = 0;
+
+    await users.set({ id: "1" }, { id: "1", name: "Changed" });
+    expect(await users.get({ id: "1" })).toEqual({ id: "1", name: "Changed" });
+    expect(retrievals).toBe(0);
+
+    expect(await users.refresh({ id: "1" })).toEqual({
+      id: "1",
+      name: "User 1",
+    });
+    expect(await users.peek({ id: "1" })).toEqual({ id: "1", name: "User 1" });
+
+    expect(await users.invalidate({ id: "1" })).toBe(1);
+    expect(await users.peek({ id: "1" })).toBe(null);
+    expect(retrievals).toBe(1);
+  });
+
+  test("List definitions", async () => {
+    const users = defineUsers("define:registry");
+    const namespaced = cacheClient.namespace("tenant").define({
+      name: "define:registry",
+      key: (id: number) => [id],
+      retrieve: (id) => id,
+    });
+
+    expect(cacheClient.definitions()).toContain(users);
+    expect(cacheClient.definitions()).toContain(namespaced);
+    expect(users.options).toEqual({ duration: 10 * SECONDS });
+    expect(() => defineUsers("define:registry")).toThrow();
+  });
+});
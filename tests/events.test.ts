@@ -0,0 +1,69 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { CacheClient, type CacheEvent, MemoryStore } from "..";
+
+describe("events", async () => {
+  let cacheClient: CacheClient;
+
+  beforeAll(async () => {
+    cacheClient = await CacheClient.create({ store: new MemoryStore() });
+  });
+
+  afterAll(async () => {
+    cacheClient.close();
+  });
+
+  test("Emit lookup, retrieval and write events", async () => {
+    const events: CacheEvent[] = [];
+    const unsubscribe = ["hit", "miss", "retrieve", "set"].map((type) =>
+      cacheClient.on(type as CacheEvent["type"], (event) => events.push(event))
+    );
+
+    await cacheClient.getValueOrRetrieve("events:1", async () => ({ id: 1 }));
+    await cacheClient.getValueOrRetrieve("events:1", async () => ({ id: 1 }));
+    for (const off of unsubscribe) {
+      off();
+    }
+    await cacheClient.getValueOrRetrieve("events:1", async () => ({ id: 1 }));
+
+    expect(events.map((event) => event.type)).toEqual([
+      "miss",
+      "retrieve",
+      "set",
+      "hit",
+    ]);
+    expect(events[3]?.tier).toBe("redis");
+    expect(events[2]?.bytes).toBeGreaterThan(0);
+  });
+
+  test("Emit errors of retrieval functions", async () => {
+    const errors: CacheEvent[] = [];
+    cacheClient.on("error", (event) => errors.push(event));
+
+    await expect(
+      cacheClient.getValueOrRetrieve(
+        "events:error",
+        async (): Promise<number> => {
+          throw new Error("Failed");
+        }
+      )
+    ).rejects.toThrow("Failed");
+
+    expect(errors.length).toBe(1);
+    expect(errors[0]?.error).toBeInstanceOf(Error);
+  });
+
+  test("Metrics", async () => {
+    await cacheClient.setValue("metrics:1", 1);
+    await cacheClient.getValue("metrics:1");
+    await cacheClient.getValue("metrics:2");
+
+    const { prefixes } = cacheClient.metrics();
+
+    expect(prefixes.metrics?.count.set).toBe(1);
+    expect(prefixes.metrics?.count.hit).toBe(1);
+    expect(prefixes.metrics?.count.miss).toBe(1);
+    expect(cacheClient.prometheus()).toContain(
+      'bun_cache_events_total{prefix="metrics",event="hit"} 1'
+    );
+  });
+});
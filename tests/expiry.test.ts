@@ -0,0 +1,89 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { CacheClient, MemoryStore, SECONDS } from "..";
+import { applyJitter, shouldRefreshEarly } from "../src/expiry";
+
+describe("expiry", () => {
+  test("Spread the duration by a fraction", () => {
+    expect(applyJitter(1000, 0.1, () => 0)).toBe(900);
+    expect(applyJitter(1000, 0.1, () => 0.5)).toBe(1000);
+    expect(applyJitter(1000, 0.1, () => 1)).toBe(1100);
+    expect(applyJitter(1000, undefined)).toBe(1000);
+  });
+
+  test("Spread the duration by a range", () => {
+    const jitter = { minInMs: 100, maxInMs: 300 };
+    expect(applyJitter(1000, jitter, () => 0)).toBe(1100);
+    expect(applyJitter(1000, jitter, () => 0.5)).toBe(1200);
+    expect(applyJitter(10, { minInMs: -100, maxInMs: -100 })).toBe(1);
+  });
+
+  test("Refresh early close to the expiry", () => {
+    const now = 10_000;
+    //-log(0.5) * 100ms = 69ms
+    expect(shouldRefreshEarly(now + 50, 100, undefined, now, () => 0.5)).toBe(
+      true
+    );
+    expect(shouldRefreshEarly(now + 100, 100, undefined, now, () => 0.5)).toBe(
+      false
+    );
+    expect(
+      shouldRefreshEarly(now + 100, 100, { beta: 2 }, now, () => 0.5)
+    ).toBe(true);
+  });
+});
+
+describe("getValueOrRetrieve expiry", async () => {
+  let store: MemoryStore;
+  let cacheClient: CacheClient;
+
+  beforeAll(async () => {
+    store = new MemoryStore();
+    cacheClient = await CacheClient.create({ store });
+  });
+
+  afterAll(async () => {
+    cacheClient.close();
+  });
+
+  test("Apply jitter to the cache duration", async () => {
+    await cacheClient.getValueOrRetrieve("expiry:1", async () => "a", {
+      duration: 10 * SECONDS,
+      jitter: { minInMs: 5 * SECONDS, maxInMs: 5 * SECONDS },
+    });
+    await cacheClient.setValue("expiry:2", "b", {
+      duration: 10 * SECONDS,
+      jitter: { minInMs: 5 * SECONDS, maxInMs: 5 * SECONDS },
+    });
+
+    for (const key of ["expiry:1", "expiry:2"]) {
+      const ttl = await store.pttl(key);
+      expect(ttl).toBeGreaterThan(10 * SECONDS);
+      expect(ttl).toBeLessThanOrEqual(15 * SECONDS);
+    }
+  });
+
+  test("Refresh values early in the background", async () => {
+    let calls = 0;
+    const retrieve = async () => {
+      calls++;
+      await Bun.sleep(20);
+      return calls;
+    };
+    const options = {
+      duration: 10 * SECONDS,
+      //Practically guarantees a refresh
+      earlyRefresh: { beta: 1_000_000 },
+    };
+
+    expect(
+      await cacheClient.getValueOrRetrieve("expiry:3", retrieve, options)
+    ).toBe(1);
+    //The valid value is served while it is recomputed
+    expect(
+      await cacheClient.getValueOrRetrieve("expiry:3", retrieve, options)
+    ).toBe(1);
+    await Bun.sleep(50);
+    expect(calls).toBe(2);
+    expect(await cacheClient.getValueOrRetrieve("expiry:3", retrieve)).toBe(2);
+  });
+});
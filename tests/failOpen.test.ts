@@ -0,0 +1,96 @@
+import { describe, expect, test } from "bun:test";
+import { CacheClient, MemoryStore, StoreUnavailableError } from "..";
+
+//Store simulating an unreachable server
+class UnavailableStore extends MemoryStore {
+  failReads = true;
+  failWrites = true;
+  calls = 0;
+
+  override async get(key: string) {
+    this.calls++;
+    if (this.failReads) {
+      throw new Error("Connection closed");
+    }
+    return super.get(key);
+  }
+
+  override async set(key: string, value: string | Uint8Array) {
+    this.calls++;
+    if (this.failWrites) {
+      throw new Error("Connection closed");
+    }
+    return super.set(key, value);
+  }
+}
+
+describe("failOpen", async () => {
+  test("Reject if failing closed", async () => {
+    const cacheClient = await CacheClient.create({
+      store: new UnavailableStore(),
+    });
+
+    await expect(
+      cacheClient.getValueOrRetrieve("fail_closed", async () => 1)
+    ).rejects.toBeInstanceOf(StoreUnavailableError);
+    cacheClient.close();
+  });
+
+  test("Retrieve directly if failing open", async () => {
+    const cacheClient = await CacheClient.create({
+      store: new UnavailableStore(),
+      failureMode: "failOpen",
+    });
+
+    let count = 0;
+    const retrieve = async () => ++count;
+
+    expect(await cacheClient.getValueOrRetrieve("fail_open", retrieve)).toBe(1);
+    expect(await cacheClient.getValueOrRetrieve("fail_open", retrieve)).toBe(2);
+    cacheClient.close();
+  });
+
+  test("Skip failing writes", async () => {
+    const store = new UnavailableStore();
+    store.failReads = false;
+    const cacheClient = await CacheClient.create({
+      store,
+      failureMode: "failOpen",
+    });
+
+    expect(
+      await cacheClient.getValueOrRetrieve("fail_write", async () => 1)
+    ).toBe(1);
+    expect(await cacheClient.getValue("fail_write")).toBe(null);
+    cacheClient.close();
+  });
+
+  test("Stop calling the store once the circuit opened", async () => {
+    const store = new UnavailableStore();
+    const cacheClient = await CacheClient.create({
+      store,
+      failureMode: "failOpen",
+      circuitBreaker: { minimumRequests: 2, resetTimeoutInMs: 50 },
+    });
+    const states: string[] = [];
+    cacheClient.oncircuitchange((state) => states.push(state));
+
+    for (let i = 0; i < 5; i++) {
+      expect(
+        await cacheClient.getValueOrRetrieve("circuit", async () => i)
+      ).toBe(i);
+    }
+    //Lookups of the first two requests
+    expect(store.calls).toBe(2);
+    expect(states).toEqual(["open"]);
+
+    store.failReads = false;
+    store.failWrites = false;
+    await Bun.sleep(60);
+    expect(await cacheClient.getValueOrRetrieve("circuit", async () => 5)).toBe(
+      5
+    );
+    expect(states).toEqual(["open", "halfOpen", "closed"]);
+    cacheClient.close();
+  });
+});
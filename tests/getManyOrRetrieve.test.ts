@@ -0,0 +1,101 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { CacheClient } from "..";
+
+describe("getManyOrRetrieve", async () => {
+  let cacheClient: CacheClient;
+
+  beforeAll(async () => {
+    cacheClient = await CacheClient.create({
+      url: "redis://localhost:6379",
+    });
+  });
+
+  afterAll(async () => {
+    cacheClient.close();
+  });
+
+  test("Retrieve missing keys only", async () => {
+    const keys = ["many_1", "many_2", "many_3"];
+    for (const key of keys) {
+      await cacheClient.del(key);
+    }
+    await cacheClient.setValue("many_2", { id: "many_2" });
+
+    const calls: string[][] = [];
+    const retrieve = async (missing: string[]) => {
+      calls.push(missing);
+      return missing.map((id) => ({ id }));
+    };
+
+    const res = await cacheClient.getManyOrRetrieve(keys, retrieve);
+    const cached = await cacheClient.getManyOrRetrieve(keys, retrieve);
+    for (const key of keys) {
+      await cacheClient.del(key);
+    }
+
+    expect(res).toEqual([{ id: "many_1" }, { id: "many_2" }, { id: "many_3" }]);
+    expect(cached).toEqual(res);
+    expect(calls).toEqual([["many_1", "many_3"]]);
+  });
+
+  test("Null handling", async () => {
+    const keys = ["many_null_1", "many_null_2"];
+    for (const key of keys) {
+      await cacheClient.del(key);
+    }
+
+    let count = 0;
+    const retrieve = async (missing: string[]) => {
+      count++;
+      return missing.map(() => null);
+    };
+
+    expect(await cacheClient.getManyOrRetrieve(keys, retrieve)).toEqual([
+      null,
+      null,
+    ]);
+    expect(await cacheClient.getManyOrRetrieve(keys, retrieve)).toEqual([
+      null,
+      null,
+    ]);
+    expect(count).toBe(1);
+
+    expect(
+      await cacheClient.getManyOrRetrieve(keys, retrieve, {
+        saveNullResponse: false,
+      })
+    ).toEqual([null, null]);
+    expect(count).toBe(2);
+
+    for (const key of keys) {
+      await cacheClient.del(key);
+    }
+  });
+
+  test("Duplicate keys", async () => {
+    await cacheClient.del("many_duplicate");
+
+    const calls: string[][] = [];
+    const res = await cacheClient.getManyOrRetrieve(
+      ["many_duplicate", "many_duplicate"],
+      async (missing) => {
+        calls.push(missing);
+        return missing.map(() => 1);
+      }
+    );
+    await cacheClient.del("many_duplicate");
+
+    expect(res).toEqual([1, 1]);
+    expect(calls).toEqual([["many_duplicate"]]);
+  });
+
+  test("Mismatching result length", async () => {
+    await cacheClient.del("many_mismatch");
+
+    await expect(
+      cacheClient.getManyOrRetrieve(["many_mismatch"], async () => [])
+    ).rejects.toThrow(
+      "The retrieval function returned 0 values for 1 missing keys"
+    );
+  });
+});
@@ -1,5 +1,5 @@
 import { afterAll, beforeAll, describe, expect, test } from "bun:test";
-import { CacheClient } from "..";
+import { CacheClient, msgpackCodec, richCodec } from "..";
 
 describe("getSetValue", async () => {
   let cacheClient: CacheClient;
@@ -66,4 +66,50 @@ describe("getSetValue", async () => {
 
     expect(await cacheClient.exists(key)).toBe(false);
   });
+
+  test("setWithCodec", async () => {
+    const key = "value_codec";
+    const date = new Date("2024-01-01T12:00:00.000Z");
+
+    await cacheClient.del(key);
+    await cacheClient.setValue(key, { date }, { codec: richCodec });
+
+    const res = await cacheClient.getValue<{ date: Date }>(key);
+    await cacheClient.del(key);
+
+    expect(res?.date).toEqual(date);
+  });
+
+  test("getSetValues", async () => {
+    const keys = ["values_a", "values_b", "values_missing"];
+
+    await cacheClient.setValues(
+      { values_a: 1, values_b: { foo: "bar" } },
+      1000
+    );
+
+    const res = await cacheClient.getValues(keys);
+    for (const key of keys) {
+      await cacheClient.del(key);
+    }
+
+    expect(res).toEqual([1, { foo: "bar" }, null]);
+  });
+
+  test("getValues keeps binary values", async () => {
+    const keys = ["values_binary_a", "values_binary_b"];
+    const bytes = new Uint8Array([0, 128, 255]);
+
+    await cacheClient.setValue("values_binary_a", bytes, {
+      codec: msgpackCodec,
+    });
+    await cacheClient.setValue("values_binary_b", 1);
+
+    const res = await cacheClient.getValues(keys);
+    for (const key of keys) {
+      await cacheClient.del(key);
+    }
+
+    expect(res).toEqual([bytes, 1]);
+  });
 });
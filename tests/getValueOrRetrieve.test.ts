@@ -181,4 +181,51 @@ describe("getValueOrRetrieve", async () => {
     });
     expect(count).toBe(1);
   });
+
+  test("Coalesce concurrent retrievals", async () => {
+    const key = "coalesce";
+
+    await cacheClient.del(key);
+
+    let count = 0;
+
+    const results = await Promise.all(
+      Array.from({ length: 20 }, () =>
+        cacheClient.getValueOrRetrieve(key, async () => {
+          count++;
+          await Bun.sleep(20);
+          return count;
+        })
+      )
+    );
+
+    expect(results.every((r) => r === 1)).toBe(true);
+    expect(count).toBe(1);
+  });
+
+  test("Distributed lock", async () => {
+    const key = "distributedLock";
+    const otherClient = await CacheClient.create({
+      url: "redis://localhost:6379",
+    });
+
+    await cacheClient.del(key);
+
+    let count = 0;
+    const retrieve = async () => {
+      count++;
+      await Bun.sleep(50);
+      return "value";
+    };
+
+    const [res, res1] = await Promise.all([
+      cacheClient.getValueOrRetrieve(key, retrieve, { distributedLock: true }),
+      otherClient.getValueOrRetrieve(key, retrieve, { distributedLock: true }),
+    ]);
+    otherClient.close();
+
+    expect(res).toBe("value");
+    expect(res1).toBe("value");
+    expect(count).toBe(1);
+  });
 });
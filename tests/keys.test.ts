@@ -0,0 +1,77 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { CacheClient, MemoryStore, SECONDS } from "..";
+
+describe("keys", async () => {
+  let cacheClient: CacheClient;
+
+  beforeAll(async () => {
+    cacheClient = await CacheClient.create({
+      store: new MemoryStore(),
+      compression: { algorithm: "gzip", thresholdInBytes: 100 },
+    });
+    for (let i = 0; i < 30; i++) {
+      await cacheClient.setValue(`keys:user:${i}`, i);
+    }
+    await cacheClient.setValue("keys:order:1", 1);
+  });
+
+  afterAll(async () => {
+    cacheClient.close();
+  });
+
+  test("Iterate keys matching a pattern", async () => {
+    const keys: string[] = [];
+    for await (const key of cacheClient.keys("keys:user:*", { count: 7 })) {
+      keys.push(key);
+    }
+    expect(keys.length).toBe(30);
+    expect(keys).toContain("keys:user:0");
+  });
+
+  test("Strip the prefix of namespaces", async () => {
+    const keys: string[] = [];
+    for await (const key of cacheClient.namespace("keys").keys("order:*")) {
+      keys.push(key);
+    }
+    expect(keys).toEqual(["order:1"]);
+  });
+
+  test("Delete keys matching a pattern", async () => {
+    await cacheClient.setValue("keys:session:1", "a");
+    await cacheClient.setValue("keys:session:2", "b");
+
+    expect(
+      await cacheClient.deleteByPattern("keys:session:*", { dryRun: true })
+    ).toBe(2);
+    expect(await cacheClient.exists("keys:session:1")).toBe(true);
+
+    expect(await cacheClient.deleteByPattern("keys:session:*")).toBe(2);
+    expect(await cacheClient.exists("keys:session:1")).toBe(false);
+    expect(await cacheClient.exists("keys:user:1")).toBe(true);
+  });
+
+  test("Report the time to live", async () => {
+    await cacheClient.setValue("keys:ttl", "a", { duration: 10 * SECONDS });
+
+    const ttl = await cacheClient.ttlOf("keys:ttl");
+    expect(ttl).toBeGreaterThan(0);
+    expect(ttl).toBeLessThanOrEqual(10 * SECONDS);
+    expect(await cacheClient.ttlOf("keys:user:1")).toBe(-1);
+    expect(await cacheClient.ttlOf("keys:missing")).toBe(-2);
+  });
+
+  test("Inspect a key", async () => {
+    await cacheClient.setValue("keys:large", "a".repeat(1000));
+
+    const info = await cacheClient.inspect("keys:large");
+    expect(info?.compression).toBe("gzip");
+    expect(info?.codec).toBe("json");
+    expect(info?.ttlInMs).toBe(-1);
+    expect(info?.bytes).toBeLessThan(1000);
+    expect(info?.kind).toBe("value");
+    expect(await cacheClient.inspect("keys:missing")).toBeNull();
+
+    await cacheClient.getValueOrRetrieve("keys:null", async () => null);
+    expect((await cacheClient.inspect("keys:null"))?.kind).toBe("null");
+  });
+});
@@ -0,0 +1,167 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { CacheClient, type Lock, LockTimeoutError, MemoryStore } from "..";
+
+describe("lock", async () => {
+  let cacheClient: CacheClient;
+
+  beforeAll(async () => {
+    cacheClient = await CacheClient.create({ store: new MemoryStore() });
+  });
+
+  afterAll(async () => {
+    cacheClient.close();
+  });
+
+  test("Exclude other holders", async () => {
+    const lock = await cacheClient.lock("lock:1");
+    expect(lock.held).toBe(true);
+
+    await expect(
+      cacheClient.lock("lock:1", { waitTimeout: 0 })
+    ).rejects.toBeInstanceOf(LockTimeoutError);
+
+    expect(await lock.release()).toBe(true);
+    expect(lock.held).toBe(false);
+    const next = await cacheClient.lock("lock:1", { waitTimeout: 0 });
+    await next.release();
+  });
+
+  test("Wait for the lock to be released", async () => {
+    const lock = await cacheClient.lock("lock:2");
+    setTimeout(() => lock.release(), 30);
+
+    const next = await cacheClient.lock("lock:2", {
+      waitTimeout: 1000,
+      retryDelay: 10,
+    });
+    expect(next.held).toBe(true);
+    await next.release();
+  });
+
+  test("Increment the fencing token", async () => {
+    const first = await cacheClient.lock("lock:3");
+    await first.release();
+    const second = await cacheClient.lock("lock:3");
+    await second.release();
+
+    expect(second.fencingToken).toBeGreaterThan(first.fencingToken);
+  });
+
+  test("Only the owner releases and extends the lock", async () => {
+    const lock = await cacheClient.lock("lock:4", { ttl: 20 });
+    await Bun.sleep(30);
+    const next = await cacheClient.lock("lock:4", { waitTimeout: 0 });
+
+    expect(await lock.extend()).toBe(false);
+    expect(await lock.release()).toBe(false);
+    expect(next.held).toBe(true);
+    await next.release();
+  });
+
+  test("Extend the lock automatically", async () => {
+    const lock = await cacheClient.lock("lock:5", {
+      ttl: 30,
+      autoExtend: true,
+    });
+    await Bun.sleep(100);
+
+    expect(lock.held).toBe(true);
+    await expect(
+      cacheClient.lock("lock:5", { waitTimeout: 0 })
+    ).rejects.toThrow();
+    await lock.release();
+  });
+
+  test("Locks do not block retrievals of the same key", async () => {
+    const lock = await cacheClient.lock("lock:7");
+
+    const value = await cacheClient.getValueOrRetrieve(
+      "lock:7",
+      async () => "value",
+      { distributedLock: true }
+    );
+    expect(value).toBe("value");
+    await lock.release();
+    await cacheClient.del("lock:7");
+  });
+
+  test("Release on dispose", async () => {
+    const lock = await cacheClient.lock("lock:6");
+    await lock[Symbol.asyncDispose]();
+
+    const next = await cacheClient.lock("lock:6", { waitTimeout: 0 });
+    await next.release();
+  });
+});
+
+describe("lock with redis", async () => {
+  let cacheClient: CacheClient;
+
+  beforeAll(async () => {
+    cacheClient = await CacheClient.create({
+      url: "redis://localhost:6379",
+    });
+  });
+
+  afterAll(async () => {
+    cacheClient.close();
+  });
+
+  test("Acquire and release", async () => {
+    const lock = await cacheClient.lock("lock_test:acquire", {
+      waitTimeout: 0,
+    });
+    expect(lock.held).toBe(true);
+    expect(lock.fencingToken).toBeGreaterThan(0);
+
+    expect(await lock.release()).toBe(true);
+    expect(await lock.release()).toBe(false);
+    const next = await cacheClient.lock("lock_test:acquire", {
+      waitTimeout: 0,
+    });
+    expect(await next.release()).toBe(true);
+  });
+
+  test("Exclude concurrent holders", async () => {
+    const results = await Promise.allSettled(
+      Array.from({ length: 5 }, () =>
+        cacheClient.lock("lock_test:contention", { waitTimeout: 0 })
+      )
+    );
+    const acquired = results.filter((result) => result.status === "fulfilled");
+    expect(acquired.length).toBe(1);
+    for (const result of results) {
+      if (result.status === "rejected") {
+        expect(result.reason).toBeInstanceOf(LockTimeoutError);
+      }
+    }
+    await (acquired[0] as PromiseFulfilledResult<Lock>).value.release();
+  });
+
+  test("Do not extend or release an expired lock", async () => {
+    const lock = await cacheClient.lock("lock_test:expired", { ttl: 50 });
+    await Bun.sleep(100);
+    expect(await lock.extend()).toBe(false);
+
+    const next = await cacheClient.lock("lock_test:expired", {
+      waitTimeout: 0,
+    });
+    expect(await lock.release()).toBe(false);
+    expect(await next.extend(1000)).toBe(true);
+    expect(next.held).toBe(true);
+    expect(await next.release()).toBe(true);
+  });
+
+  test("Increment the fencing token", async () => {
+    const tokens: number[] = [];
+    for (let i = 0; i < 3; i++) {
+      const lock = await cacheClient.lock("lock_test:fence", {
+        waitTimeout: 0,
+      });
+      tokens.push(lock.fencingToken);
+      await lock.release();
+    }
+    expect(tokens[1]).toBe((tokens[0] as number) + 1);
+    expect(tokens[2]).toBe((tokens[1] as number) + 1);
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, expect, test } from "bun:test";
+import { MemoryStore, globToRegExp } from "../src/memoryStore";
+
+const text = (value: Uint8Array | null) =>
+  value === null ? null : new TextDecoder().decode(value);
+
+describe("MemoryStore", () => {
+  test("Expire keys using the clock", async () => {
+    let now = 0;
+    const store = new MemoryStore({ now: () => now });
+
+    await store.set("ex", "1", "EX", 10);
+    await store.set("px", "1", "PX", 10);
+    await store.set("pxat", "1", "PXAT", 20);
+
+    now = 10;
+    expect(await store.exists("ex")).toBe(true);
+    expect(await store.exists("px")).toBe(false);
+    expect(await store.exists("pxat")).toBe(true);
+
+    now = 10_000;
+    expect(await store.exists("ex")).toBe(false);
+    expect(await store.exists("pxat")).toBe(false);
+  });
+
+  test("Set flags", async () => {
+    let now = 0;
+    const store = new MemoryStore({ now: () => now });
+
+    expect(await store.set("key", "a", "XX")).toBe(null);
+    expect(await store.set("key", "a", "NX", "PX", 100)).toBe("OK");
+    expect(await store.set("key", "b", "NX")).toBe(null);
+    expect(await store.set("key", "b", "XX", "KEEPTTL")).toBe("OK");
+    expect(await store.set("key", "c", "GET", "KEEPTTL")).toBe("b");
+    expect(text(await store.get("key"))).toBe("c");
+
+    now = 100;
+    expect(await store.get("key")).toBe(null);
+  });
+
+  test("Reject invalid expire time", async () => {
+    const store = new MemoryStore();
+
+    await expect(store.set("key", "a", "EX", 0)).rejects.toThrow(
+      "ERR invalid expire time in 'set' command"
+    );
+  });
+
+  test("Get multiple keys", async () => {
+    const store = new MemoryStore();
+    await store.set("a", "1");
+    await store.set("b", "2");
+
+    const values = await store.mget(["a", "missing", "b"]);
+
+    expect(values.map(text)).toEqual(["1", null, "2"]);
+  });
+
+  test("Expire", async () => {
+    let now = 0;
+    const store = new MemoryStore({ now: () => now });
+
+    await store.set("key", "a");
+    expect(await store.pttl("key")).toBe(-1);
+    expect(await store.pexpire("key", 50)).toBe(1);
+    expect(await store.pexpire("missing", 50)).toBe(0);
+    expect(await store.pttl("key")).toBe(50);
+
+    now = 50;
+    expect(await store.pttl("key")).toBe(-2);
+  });
+
+  test("Increment", async () => {
+    const store = new MemoryStore();
+    expect(await store.incr("counter")).toBe(1);
+    expect(await store.incr("counter")).toBe(2);
+
+    await store.set("text", "a");
+    await expect(store.incr("text")).rejects.toThrow();
+  });
+
+  test("Hashes", async () => {
+    const store = new MemoryStore();
+    expect(await store.hset("user", { name: "Ada", visits: "1" })).toBe(2);
+    expect(await store.hset("user", { name: "Grace" })).toBe(0);
+    expect(await store.hincrby("user", "visits", 2)).toBe(3);
+    expect((await store.hmget("user", ["name", "missing"])).map(text)).toEqual([
+      "Grace",
+      null,
+    ]);
+    expect(Object.keys(await store.hgetall("user"))).toEqual([
+      "name",
+      "visits",
+    ]);
+    expect(await store.hgetall("missing")).toEqual({});
+
+    await expect(store.get("user")).rejects.toThrow("WRONGTYPE");
+    await store.set("text", "a");
+    await expect(store.hset("text", { a: "b" })).rejects.toThrow("WRONGTYPE");
+    expect((await store.scan("0", { type: "hash" }))[1]).toEqual(["user"]);
+  });
+
+  test("Scan", async () => {
+    const store = new MemoryStore();
+    for (let i = 0; i < 25; i++) {
+      await store.set(`user:${i}`, "a");
+      await store.set(`order:${i}`, "a");
+    }
+
+    const keys: string[] = [];
+    let cursor = "0";
+    do {
+      const [next, found] = await store.scan(cursor, {
+        match: "user:*",
+        count: 7,
+      });
+      keys.push(...found);
+      cursor = next;
+    } while (cursor !== "0");
+
+    expect(keys.length).toBe(25);
+    expect(keys.every((key) => key.startsWith("user:"))).toBe(true);
+  });
+
+  test("Scan while keys are deleted", async () => {
+    const store = new MemoryStore();
+    for (let i = 0; i < 25; i++) {
+      await store.set(`user:${i}`, "a");
+    }
+
+    let deleted = 0;
+    let cursor = "0";
+    do {
+      const [next, found] = await store.scan(cursor, { count: 4 });
+      deleted += await store.unlink(found);
+      cursor = next;
+    } while (cursor !== "0");
+
+    expect(deleted).toBe(25);
+    expect(await store.exists("user:0")).toBe(false);
+  });
+
+  test("Multi", async () => {
+    const store = new MemoryStore();
+
+    const res = await store
+      .multi()
+      .set("a", "1")
+      .get("a")
+      .exists("b")
+      .del("a")
+      .exec();
+
+    expect(res).toEqual(["OK", new TextEncoder().encode("1"), 0, 1]);
+  });
+
+  test("Abort transaction if a watched key changed", async () => {
+    const store = new MemoryStore();
+    await store.set("watched", "a");
+
+    const aborted = await store.watch(["watched"]);
+    await store.set("watched", "b");
+    expect(await aborted.set("watched", "c").exec()).toBe(null);
+    expect(text(await store.get("watched"))).toBe("b");
+
+    const executed = await store.watch(["watched"]);
+    await store.set("other", "b");
+    expect(await executed.set("watched", "c").exec()).toEqual(["OK"]);
+    expect(text(await store.get("watched"))).toBe("c");
+  });
+
+  test("Glob patterns", () => {
+    expect(globToRegExp("h?llo").test("hello")).toBe(true);
+    expect(globToRegExp("h[ae]llo").test("hallo")).toBe(true);
+    expect(globToRegExp("h[^e]llo").test("hello")).toBe(false);
+    expect(globToRegExp("h[a-b]llo").test("hbllo")).toBe(true);
+    expect(globToRegExp("h\\*llo").test("h*llo")).toBe(true);
+    expect(globToRegExp("a.b*").test("axb")).toBe(false);
+  });
+});
@@ -0,0 +1,44 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { CacheClient, MemoryStore } from "..";
+
+describe("CacheClient with MemoryStore", async () => {
+  let now = 0;
+  let cacheClient: CacheClient;
+
+  beforeAll(async () => {
+    cacheClient = await CacheClient.create({
+      store: new MemoryStore({ now: () => now }),
+    });
+  });
+
+  afterAll(async () => {
+    cacheClient.close();
+  });
+
+  test("getSetValue", async () => {
+    await cacheClient.setValue("value", { foo: "bar" }, "EX", 1);
+
+    expect(await cacheClient.getValue("value")).toMatchObject({ foo: "bar" });
+
+    now += 1000;
+    expect(await cacheClient.getValue("value")).toBe(null);
+  });
+
+  test("getValueOrRetrieve", async () => {
+    let count = 0;
+    const retrieve = async () => {
+      count++;
+      return count;
+    };
+
+    expect(await cacheClient.getValueOrRetrieve("retrieve", retrieve)).toBe(1);
+    expect(await cacheClient.getValueOrRetrieve("retrieve", retrieve)).toBe(1);
+
+    now += 10 * 60 * 1000;
+    expect(await cacheClient.getValueOrRetrieve("retrieve", retrieve)).toBe(2);
+  });
+
+  test("Redis client unavailable", () => {
+    expect(() => cacheClient.client).toThrow();
+  });
+});
@@ -0,0 +1,125 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { CacheClient } from "..";
+import { MemoryTier } from "../src/memoryTier";
+
+describe("MemoryTier", () => {
+  test("Evict least recently used entry", () => {
+    const tier = new MemoryTier({ maxEntries: 2 });
+
+    tier.set("a", "1");
+    tier.set("b", "2");
+    //Access a so b becomes the least recently used entry
+    tier.get("a");
+    tier.set("c", "3");
+
+    expect(tier.get("a")).toBe("1");
+    expect(tier.get("b")).toBe(undefined);
+    expect(tier.get("c")).toBe("3");
+    expect(tier.stats().evictions).toBe(1);
+  });
+
+  test("Evict by byte size", () => {
+    const tier = new MemoryTier({ maxBytes: 10 });
+
+    tier.set("a", "12345");
+    tier.set("b", "12345");
+    tier.set("c", "1");
+
+    expect(tier.get("a")).toBe(undefined);
+    expect(tier.stats().bytes).toBe(6);
+  });
+
+  test("Delete by prefix", () => {
+    const tier = new MemoryTier();
+
+    tier.set("users:1", "1");
+    tier.set("users:2", "2");
+    tier.set("orders:1", "3");
+    tier.deletePrefix("users:");
+
+    expect(tier.get("users:1")).toBe(undefined);
+    expect(tier.get("orders:1")).toBe("3");
+    expect(tier.stats().bytes).toBe(1);
+  });
+
+  test("Expire entries", async () => {
+    const tier = new MemoryTier({ ttlInMs: 1000 });
+
+    tier.set("a", "1", 20);
+    expect(tier.get("a")).toBe("1");
+
+    await Bun.sleep(30);
+    expect(tier.get("a")).toBe(undefined);
+    expect(tier.stats()).toMatchObject({ hits: 1, misses: 1, entries: 0 });
+  });
+});
+
+describe("getValueOrRetrieve memory tier", async () => {
+  let cacheClient: CacheClient;
+  let otherClient: CacheClient;
+  let writerClient: CacheClient;
+
+  beforeAll(async () => {
+    cacheClient = await CacheClient.create({
+      memoryTier: { ttlInMs: 10_000 },
+    });
+    otherClient = await CacheClient.create({
+      memoryTier: { ttlInMs: 10_000 },
+    });
+    writerClient = await CacheClient.create({
+      invalidationChannel: "bun-cache:invalidate",
+    });
+  });
+
+  afterAll(async () => {
+    cacheClient.close();
+    otherClient.close();
+    writerClient.close();
+  });
+
+  test("Serve from memory", async () => {
+    const key = "memoryTier";
+
+    await cacheClient.del(key);
+
+    await cacheClient.getValueOrRetrieve(key, async () => 10);
+    const res = await cacheClient.getValueOrRetrieve(key, async () => 20);
+
+    expect(res).toBe(10);
+    expect(cacheClient.stats().memory?.hits).toBe(1);
+  });
+
+  test("Invalidate other processes", async () => {
+    const key = "memoryTierInvalidate";
+
+    await cacheClient.del(key);
+
+    await otherClient.getValueOrRetrieve(key, async () => 10);
+    await cacheClient.setValue(key, 20);
+
+    //Wait for the invalidation message to arrive
+    await Bun.sleep(50);
+
+    const res = await otherClient.getValueOrRetrieve(key, async () => 30);
+    await cacheClient.del(key);
+
+    expect(res).toBe(20);
+  });
+
+  test("Invalidate from processes without memory tier", async () => {
+    const key = "memoryTierInvalidateWriter";
+
+    await cacheClient.del(key);
+
+    await otherClient.getValueOrRetrieve(key, async () => 10);
+    await writerClient.setValue(key, 20);
+
+    //Wait for the invalidation message to arrive
+    await Bun.sleep(50);
+
+    const res = await otherClient.getValueOrRetrieve(key, async () => 30);
+    await cacheClient.del(key);
+
+    expect(res).toBe(20);
+  });
+});
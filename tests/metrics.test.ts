@@ -0,0 +1,84 @@
+import { describe, expect, test } from "bun:test";
+import { Metrics, renderPrometheus } from "../src/metrics";
+
+describe("Metrics", () => {
+  test("Group events by prefix", () => {
+    const metrics = new Metrics({ buckets: [1, 10] }, "app:");
+
+    metrics.record({
+      type: "hit",
+      key: "app:users:1",
+      durationInMs: 0.5,
+      bytes: 10,
+    });
+    metrics.record({
+      type: "hit",
+      key: "app:users:2",
+      durationInMs: 5,
+      bytes: 20,
+    });
+    metrics.record({
+      type: "miss",
+      key: "app:_orders_1",
+      durationInMs: 20,
+      bytes: 0,
+    });
+    metrics.record({ type: "set", key: "plain", durationInMs: 1, bytes: 5 });
+
+    const { prefixes } = metrics.snapshot();
+
+    expect(Object.keys(prefixes).sort()).toEqual([
+      "default",
+      "orders",
+      "users",
+    ]);
+    expect(prefixes.users?.count.hit).toBe(2);
+    expect(prefixes.users?.bytes.hit).toBe(30);
+    expect(prefixes.users?.latency.hit).toEqual({
+      buckets: [
+        { le: 1, count: 1 },
+        { le: 10, count: 2 },
+      ],
+      count: 2,
+      sum: 5.5,
+    });
+    expect(prefixes.orders?.latency.miss.buckets[1]?.count).toBe(0);
+    expect(prefixes.orders?.latency.miss.count).toBe(1);
+  });
+
+  test("Custom prefix", () => {
+    const metrics = new Metrics({ prefixOf: (key) => key.slice(0, 1) });
+    metrics.record({ type: "renew", key: "abc", durationInMs: 1, bytes: 0 });
+
+    expect(metrics.snapshot().prefixes.a?.count.renew).toBe(1);
+  });
+
+  test("Render prometheus text format", () => {
+    const metrics = new Metrics({ buckets: [1] });
+    metrics.record({
+      type: "hit",
+      key: "users:1",
+      durationInMs: 0.5,
+      bytes: 10,
+    });
+
+    const text = renderPrometheus(metrics.snapshot(), "cache");
+
+    expect(text).toContain("# TYPE cache_events_total counter");
+    expect(text).toContain('cache_events_total{prefix="users",event="hit"} 1');
+    expect(text).toContain('cache_bytes_total{prefix="users",event="hit"} 10');
+    expect(text).toContain(
+      'cache_event_duration_seconds_bucket{prefix="users",event="hit",le="0.001"} 1'
+    );
+    expect(text).toContain(
+      'cache_event_duration_seconds_bucket{prefix="users",event="hit",le="+Inf"} 1'
+    );
+    expect(text).toContain(
+      'cache_event_duration_seconds_sum{prefix="users",event="hit"} 0.0005'
+    );
+    expect(text).toContain(
+      'cache_event_duration_seconds_count{prefix="users",event="miss"} 0'
+    );
+    expect(text.endsWith("\n")).toBe(true);
+  });
+});
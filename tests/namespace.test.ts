@@ -0,0 +1,89 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { CacheClient, MemoryStore, SECONDS } from "..";
+
+describe("namespace", async () => {
+  let store: MemoryStore;
+  let cacheClient: CacheClient;
+
+  beforeAll(async () => {
+    store = new MemoryStore();
+    cacheClient = await CacheClient.create({ store });
+  });
+
+  afterAll(async () => {
+    cacheClient.close();
+  });
+
+  test("Prefix keys of every method", async () => {
+    const users = cacheClient.namespace("users");
+
+    await users.setValue("1", { name: "Ada" });
+    await users.setValues({ "2": { name: "Alan" } });
+    await users.getValueOrRetrieve("3", async () => ({ name: "Grace" }));
+
+    expect(await cacheClient.getValue("users:1")).toEqual({ name: "Ada" });
+    expect(await users.getValue("1")).toEqual({ name: "Ada" });
+    expect(await users.getValues(["1", "2"])).toEqual([
+      { name: "Ada" },
+      { name: "Alan" },
+    ]);
+    expect(await users.exists("3")).toBe(true);
+    expect(await store.exists("users:3")).toBe(true);
+
+    expect(await users.del("1")).toBe(1);
+    expect(await cacheClient.exists("users:1")).toBe(false);
+  });
+
+  test("Prefix keys of transactions", async () => {
+    const orders = cacheClient.namespace("orders");
+
+    const [, value] = await orders
+      .multi()
+      .setValue("1", 10)
+      .getValue<number>("1")
+      .exec();
+
+    expect(value).toBe(10);
+    expect(await store.exists("orders:1")).toBe(true);
+  });
+
+  test("Nest namespaces", async () => {
+    const sessions = cacheClient.namespace("app").namespace("sessions");
+
+    await sessions.setValue("1", "a");
+    expect(await store.exists("app:sessions:1")).toBe(true);
+  });
+
+  test("Apply the default duration of the namespace", async () => {
+    const shortLived = cacheClient.namespace("shortLived", {
+      defaultDuration: { value: 10, unit: "SECONDS" },
+    });
+
+    await shortLived.getValueOrRetrieve("1", async () => "a");
+
+    const ttl = await store.pttl("shortLived:1");
+    expect(ttl).toBeGreaterThan(0);
+    expect(ttl).toBeLessThanOrEqual(10 * SECONDS);
+  });
+
+  test("Clear a namespace", async () => {
+    const products = cacheClient.namespace("products");
+    for (let i = 0; i < 1200; i++) {
+      await products.setValue(String(i), i);
+    }
+    await cacheClient.setValue("productsCount", 1200);
+
+    expect(await products.clearNamespace()).toBe(1200);
+    expect(await products.exists("0")).toBe(false);
+    expect(await cacheClient.exists("productsCount")).toBe(true);
+  });
+
+  test("Refuse to clear a client without namespace", async () => {
+    await expect(cacheClient.clearNamespace()).rejects.toThrow();
+  });
+
+  test("Closing a namespace keeps the connection open", async () => {
+    cacheClient.namespace("closed").close();
+    expect(store.connected).toBe(true);
+  });
+});
@@ -0,0 +1,147 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import {
+  CacheClient,
+  CachedRetrievalError,
+  MINUTES,
+  MemoryStore,
+  SECONDS,
+} from "..";
+
+describe("negative caching", async () => {
+  let now = Date.now();
+  let store: MemoryStore;
+  let cacheClient: CacheClient;
+
+  beforeAll(async () => {
+    store = new MemoryStore({ now: () => now });
+    cacheClient = await CacheClient.create({ store });
+  });
+
+  afterAll(async () => {
+    cacheClient.close();
+  });
+
+  test("Expire null values after the null duration", async () => {
+    let calls = 0;
+    const retrieve = async () => {
+      calls++;
+      return null;
+    };
+    const options = { duration: 10 * MINUTES, nullDuration: 5 * SECONDS };
+
+    await cacheClient.getValueOrRetrieve("negative:1", retrieve, options);
+    await cacheClient.getValueOrRetrieve("negative:1", retrieve, options);
+    expect(calls).toBe(1);
+    expect(await store.pttl("negative:1")).toBe(5 * SECONDS);
+
+    now += 6 * SECONDS;
+    await cacheClient.getValueOrRetrieve("negative:1", retrieve, options);
+    expect(calls).toBe(2);
+  });
+
+  test("Expire null values after a minute by default", async () => {
+    await cacheClient.getValueOrRetrieve("negative:2", async () => null, {
+      duration: 10 * MINUTES,
+    });
+    expect(await store.pttl("negative:2")).toBe(1 * MINUTES);
+  });
+
+  test("Rethrow cached errors", async () => {
+    let calls = 0;
+    const retrieve = async () => {
+      calls++;
+      throw new TypeError("Upstream failed");
+    };
+    const options = { cacheErrors: { duration: 2 * SECONDS } };
+
+    await expect(
+      cacheClient.getValueOrRetrieve("negative:3", retrieve, options)
+    ).rejects.toThrow(TypeError);
+
+    const error = await cacheClient
+      .getValueOrRetrieve("negative:3", retrieve, options)
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(CachedRetrievalError);
+    expect(error.message).toBe("Upstream failed");
+    expect(error.originalName).toBe("TypeError");
+    expect(calls).toBe(1);
+
+    now += 3 * SECONDS;
+    await cacheClient
+      .getValueOrRetrieve("negative:3", retrieve, options)
+      .catch(() => {});
+    expect(calls).toBe(2);
+  });
+
+  test("Ignore cached errors unless opted in", async () => {
+    await cacheClient
+      .getValueOrRetrieve(
+        "negative:4",
+        async () => {
+          throw new Error("Upstream failed");
+        },
+        { cacheErrors: true }
+      )
+      .catch(() => {});
+
+    expect(
+      await cacheClient.getValueOrRetrieve("negative:4", async () => "value")
+    ).toBe("value");
+  });
+
+  test("Keep serving stale values if revalidating fails", async () => {
+    let failing = false;
+    const retrieve = async () => {
+      if (failing) {
+        throw new Error("Upstream down");
+      }
+      return "v1";
+    };
+    const options = {
+      duration: 100,
+      staleWhileRevalidate: 10 * SECONDS,
+      cacheErrors: true,
+    };
+
+    await cacheClient.getValueOrRetrieve("negative:5", retrieve, options);
+    await Bun.sleep(150);
+    failing = true;
+
+    expect(
+      await cacheClient.getValueOrRetrieve("negative:5", retrieve, options)
+    ).toBe("v1");
+    //Wait for the revalidation to fail
+    await Bun.sleep(10);
+    expect(
+      await cacheClient.getValueOrRetrieve("negative:5", retrieve, options)
+    ).toBe("v1");
+  });
+
+  test("Keep serving values if refreshing early fails", async () => {
+    let failing = false;
+    const retrieve = async () => {
+      if (failing) {
+        throw new Error("Upstream down");
+      }
+      return "good";
+    };
+    const options = {
+      duration: 10 * SECONDS,
+      //Practically guarantees a refresh
+      earlyRefresh: { beta: 1_000_000 },
+      cacheErrors: true,
+    };
+
+    await cacheClient.getValueOrRetrieve("negative:6", retrieve, options);
+    failing = true;
+
+    expect(
+      await cacheClient.getValueOrRetrieve("negative:6", retrieve, options)
+    ).toBe("good");
+    //Wait for the refresh to fail
+    await Bun.sleep(10);
+    expect(
+      await cacheClient.getValueOrRetrieve("negative:6", retrieve, options)
+    ).toBe("good");
+  });
+});
@@ -0,0 +1,185 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { CacheClient, MemoryStore, msgpackCodec } from "..";
+
+interface Profile {
+  name: string;
+  visits: number;
+  tags: string[];
+  address?: { city: string };
+}
+
+describe("objects", async () => {
+  let cacheClient: CacheClient;
+
+  beforeAll(async () => {
+    cacheClient = await CacheClient.create({ store: new MemoryStore() });
+  });
+
+  afterAll(async () => {
+    cacheClient.close();
+  });
+
+  test("Save and read objects", async () => {
+    await cacheClient.setObject("profile:1", {
+      name: "Ada",
+      visits: 1,
+      tags: ["admin"],
+      address: undefined,
+    });
+
+    expect(await cacheClient.getObject<Profile>("profile:1")).toEqual({
+      name: "Ada",
+      visits: 1,
+      tags: ["admin"],
+    });
+    expect(await cacheClient.getObject("missing")).toBe(null);
+  });
+
+  test("Read single fields", async () => {
+    await cacheClient.setObject("profile:2", {
+      name: "Grace",
+      visits: 3,
+      tags: [],
+    });
+
+    expect(
+      await cacheClient.getObject<Profile, "name" | "address">("profile:2", [
+        "name",
+        "address",
+      ])
+    ).toEqual({ name: "Grace" });
+    expect(
+      await cacheClient.getObject<Profile, "name">("missing", ["name"])
+    ).toBe(null);
+  });
+
+  test("Keep the type of string fields", async () => {
+    const fields = { zip: "12345", flag: "true", empty: "null", quoted: '"a"' };
+    await cacheClient.setObject("profile:6", fields);
+
+    expect(await cacheClient.getObject("profile:6")).toEqual(fields);
+    await cacheClient.patchObject("profile:6", { zip: "54321" });
+    expect(
+      await cacheClient.getObject<typeof fields, "zip">("profile:6", ["zip"])
+    ).toEqual({
+      zip: "54321",
+    });
+  });
+
+  test("Replace objects", async () => {
+    await cacheClient.setObject("profile:3", { name: "Ada", visits: 1 });
+    await cacheClient.setObject("profile:3", { name: "Grace" });
+
+    expect(await cacheClient.getObject("profile:3")).toEqual({
+      name: "Grace",
+    });
+  });
+
+  test("Patch fields and keep the expiration", async () => {
+    await cacheClient.setObject(
+      "profile:4",
+      { name: "Ada", visits: 1, tags: [] },
+      1000
+    );
+    await cacheClient.patchObject<Profile>("profile:4", {
+      tags: ["admin"],
+      address: { city: "London" },
+    });
+
+    expect(await cacheClient.getObject("profile:4")).toEqual({
+      name: "Ada",
+      visits: 1,
+      tags: ["admin"],
+      address: { city: "London" },
+    });
+    expect(await cacheClient.ttlOf("profile:4")).toBeGreaterThan(0);
+  });
+
+  test("Increment fields", async () => {
+    await cacheClient.setObject("profile:5", { name: "Ada", visits: 1 });
+
+    expect(await cacheClient.incrementField("profile:5", "visits")).toBe(2);
+    expect(await cacheClient.incrementField("profile:5", "visits", -5)).toBe(
+      -3
+    );
+    expect(await cacheClient.incrementField("profile:5", "logins", 2)).toBe(2);
+    expect(await cacheClient.getObject("profile:5")).toEqual({
+      name: "Ada",
+      visits: -3,
+      logins: 2,
+    });
+  });
+
+  test("Encode fields with the codec of the client", async () => {
+    const store = new MemoryStore();
+    const msgpackClient = await CacheClient.create({
+      store,
+      codec: msgpackCodec,
+    });
+    await msgpackClient.setObject("profile", {
+      visits: 1,
+      tags: ["admin"],
+    });
+
+    expect(await msgpackClient.incrementField("profile", "visits")).toBe(2);
+    expect(await msgpackClient.getObject("profile")).toEqual({
+      visits: 2,
+      tags: ["admin"],
+    });
+    msgpackClient.close();
+  });
+
+  test("Prefix keys of namespaces", async () => {
+    await cacheClient.namespace("users").setObject("1", { name: "Ada" }, 1000);
+
+    expect(await cacheClient.getObject("users:1")).toEqual({ name: "Ada" });
+  });
+});
+
+describe("objects with redis", async () => {
+  let cacheClient: CacheClient;
+
+  beforeAll(async () => {
+    cacheClient = await CacheClient.create({
+      url: "redis://localhost:6379",
+      codec: msgpackCodec,
+      compression: { algorithm: "gzip", thresholdInBytes: 100 },
+    });
+  });
+
+  afterAll(async () => {
+    cacheClient.close();
+  });
+
+  test("Save and read binary fields", async () => {
+    const profile = {
+      name: "Ada",
+      visits: 1,
+      zip: "12345",
+      bio: "a".repeat(1000),
+      tags: ["admin"],
+    };
+    await cacheClient.setObject("object_test:profile", profile, 1000);
+
+    expect(await cacheClient.getObject("object_test:profile")).toEqual(profile);
+    expect(
+      await cacheClient.getObject<typeof profile, "bio" | "tags">(
+        "object_test:profile",
+        ["bio", "tags"]
+      )
+    ).toEqual({ bio: profile.bio, tags: profile.tags });
+  });
+
+  test("Patch and increment fields", async () => {
+    await cacheClient.setObject("object_test:counter", { visits: 1 }, 1000);
+    await cacheClient.patchObject("object_test:counter", { tags: ["a"] });
+
+    expect(
+      await cacheClient.incrementField("object_test:counter", "visits")
+    ).toBe(2);
+    expect(await cacheClient.getObject("object_test:counter")).toEqual({
+      visits: 2,
+      tags: ["a"],
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import {
+  CacheClient,
+  MemoryStore,
+  type RateLimitAlgorithm,
+  rateLimitHeaders,
+  withRateLimit,
+} from "..";
+
+describe("rateLimit", async () => {
+  let cacheClient: CacheClient;
+
+  beforeAll(async () => {
+    cacheClient = await CacheClient.create();
+  });
+
+  afterAll(async () => {
+    cacheClient.close();
+  });
+
+  for (const algorithm of [
+    "fixedWindow",
+    "slidingLog",
+    "tokenBucket",
+  ] as RateLimitAlgorithm[]) {
+    test(`Limit requests with ${algorithm}`, async () => {
+      const limiter = cacheClient.rateLimiter(`test:${algorithm}`, {
+        algorithm,
+        limit: 3,
+        window: 200,
+      });
+      await limiter.reset("client");
+
+      const results = [];
+      for (let i = 0; i < 4; i++) {
+        results.push(await limiter.consume("client"));
+      }
+      expect(results.map((result) => result.allowed)).toEqual([
+        true,
+        true,
+        true,
+        false,
+      ]);
+      expect(results.map((result) => result.remaining)).toEqual([2, 1, 0, 0]);
+      expect(results[3]?.resetAt).toBeGreaterThan(Date.now());
+
+      //Other clients are counted separately
+      expect((await limiter.consume("other")).allowed).toBe(true);
+
+      await Bun.sleep(250);
+      expect((await limiter.consume("client")).allowed).toBe(true);
+      await limiter.reset("client");
+      await limiter.reset("other");
+    });
+  }
+
+  test("Count the cost of a request", async () => {
+    const limiter = cacheClient.rateLimiter("test:cost", {
+      limit: 10,
+      window: 1000,
+    });
+    await limiter.reset("client");
+
+    expect((await limiter.consume("client", 8)).remaining).toBe(2);
+    expect((await limiter.consume("client", 3)).allowed).toBe(false);
+    await limiter.reset("client");
+  });
+
+  test("Reject limited requests of a fetch handler", async () => {
+    const limiter = cacheClient.rateLimiter("test:serve", {
+      limit: 1,
+      window: 1000,
+    });
+    await limiter.reset("client");
+
+    const server = Bun.serve({
+      port: 0,
+      fetch: withRateLimit(limiter, () => new Response("Hello"), {
+        key: () => "client",
+      }),
+    });
+    try {
+      const allowed = await fetch(server.url);
+      expect(allowed.status).toBe(200);
+      expect(await allowed.text()).toBe("Hello");
+      expect(allowed.headers.get("RateLimit-Remaining")).toBe("0");
+
+      const limited = await fetch(server.url);
+      expect(limited.status).toBe(429);
+      expect(limited.headers.get("Retry-After")).toBe("1");
+    } finally {
+      server.stop(true);
+      await limiter.reset("client");
+    }
+  });
+});
+
+describe("rateLimitHeaders", () => {
+  test("Report the state of the limit", () => {
+    const headers = rateLimitHeaders({
+      allowed: false,
+      limit: 10,
+      remaining: 0,
+      resetAt: Date.now() + 1500,
+    });
+    expect(Object.fromEntries(headers)).toEqual({
+      "ratelimit-limit": "10",
+      "ratelimit-remaining": "0",
+      "ratelimit-reset": "2",
+      "retry-after": "2",
+    });
+  });
+
+  test("Require script support", async () => {
+    const memoryClient = await CacheClient.create({ store: new MemoryStore() });
+    expect(() =>
+      memoryClient.rateLimiter("test", { limit: 1, window: 1000 })
+    ).toThrow();
+    memoryClient.close();
+  });
+});
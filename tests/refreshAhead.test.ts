@@ -0,0 +1,106 @@
+import { describe, expect, test } from "bun:test";
+import { CacheClient, MemoryStore } from "..";
+
+describe("refreshAhead", async () => {
+  test("Warm missing keys", async () => {
+    const cacheClient = await CacheClient.create({ store: new MemoryStore() });
+    let retrievals = 0;
+    cacheClient.refreshAhead("warm:a", () => ++retrievals, { duration: 1000 });
+    cacheClient.refreshAhead(["warm", "b"], () => ++retrievals, {
+      duration: 1000,
+    });
+
+    expect(await cacheClient.warm()).toEqual({
+      refreshed: 2,
+      skipped: 0,
+      failed: 0,
+    });
+    expect(await cacheClient.warm([["warm", "b"]])).toEqual({
+      refreshed: 0,
+      skipped: 1,
+      failed: 0,
+    });
+    expect(retrievals).toBe(2);
+    await expect(cacheClient.warm(["unregistered"])).rejects.toThrow();
+    cacheClient.close();
+  });
+
+  test("Refresh keys about to expire", async () => {
+    const cacheClient = await CacheClient.create({
+      store: new MemoryStore(),
+      refreshAhead: { checkIntervalInMs: 10 },
+    });
+    let retrievals = 0;
+    const stop = cacheClient.refreshAhead("refresh", () => ++retrievals, {
+      duration: 100,
+      refreshBefore: 60,
+    });
+    await cacheClient.warm();
+
+    await Bun.sleep(150);
+    expect(retrievals).toBeGreaterThan(1);
+    expect(await cacheClient.getValue("refresh")).toBeGreaterThan(1);
+
+    stop();
+    const stopped = retrievals;
+    await Bun.sleep(150);
+    expect(retrievals).toBe(stopped);
+    cacheClient.close();
+  });
+
+  test("Back off after failures", async () => {
+    const cacheClient = await CacheClient.create({
+      store: new MemoryStore(),
+      refreshAhead: { checkIntervalInMs: 5, backoffInMs: 40 },
+    });
+    let attempts = 0;
+    cacheClient.refreshAhead("failing", () => {
+      attempts++;
+      throw new Error("Unavailable");
+    });
+
+    expect((await cacheClient.warm()).failed).toBe(1);
+    await Bun.sleep(100);
+    //Retried after 40 and 80ms instead of every check
+    expect(attempts).toBeLessThanOrEqual(3);
+    cacheClient.close();
+  });
+
+  test("Limit concurrent refreshes", async () => {
+    const cacheClient = await CacheClient.create({
+      store: new MemoryStore(),
+      refreshAhead: { concurrency: 2 },
+    });
+    let running = 0;
+    let maxRunning = 0;
+    for (let i = 0; i < 5; i++) {
+      cacheClient.refreshAhead(`concurrent:${i}`, async () => {
+        maxRunning = Math.max(maxRunning, ++running);
+        await Bun.sleep(10);
+        running--;
+        return i;
+      });
+    }
+
+    expect((await cacheClient.warm()).refreshed).toBe(5);
+    expect(maxRunning).toBe(2);
+    cacheClient.close();
+  });
+
+  test("Stop refreshing once closed", async () => {
+    const cacheClient = await CacheClient.create({
+      store: new MemoryStore(),
+      refreshAhead: { checkIntervalInMs: 10 },
+    });
+    let retrievals = 0;
+    cacheClient.refreshAhead("closed", () => ++retrievals, { duration: 20 });
+    await cacheClient.warm();
+
+    cacheClient[Symbol.dispose]();
+    await Bun.sleep(50);
+    expect(retrievals).toBe(1);
+    expect(() =>
+      cacheClient.refreshAhead("closed", () => ++retrievals)
+    ).toThrow();
+  });
+});
@@ -0,0 +1,84 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { CacheClient, MemoryStore } from "..";
+
+interface Vehicle {
+  id: number;
+  name: string;
+}
+
+const isVehicle = (value: unknown): value is Vehicle =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as Vehicle).id === "number" &&
+  typeof (value as Vehicle).name === "string";
+
+describe("schema", async () => {
+  let cacheClient: CacheClient;
+
+  beforeAll(async () => {
+    cacheClient = await CacheClient.create({ store: new MemoryStore() });
+  });
+
+  afterAll(async () => {
+    cacheClient.close();
+  });
+
+  test("Retrieve again if the cached value is invalid", async () => {
+    await cacheClient.setValue("schema:1", { id: 1 });
+
+    let calls = 0;
+    const value = await cacheClient.getValueOrRetrieve(
+      "schema:1",
+      async () => {
+        calls++;
+        return { id: 1, name: "bus" };
+      },
+      { schema: isVehicle }
+    );
+    expect(value).toEqual({ id: 1, name: "bus" });
+    expect(calls).toBe(1);
+
+    //The valid value is served from the cache
+    await cacheClient.getValueOrRetrieve(
+      "schema:1",
+      async () => {
+        calls++;
+        return { id: 1, name: "bus" };
+      },
+      { schema: isVehicle }
+    );
+    expect(calls).toBe(1);
+  });
+
+  test("Evict invalid values on getValue", async () => {
+    await cacheClient.setValue("schema:2", { id: "2" });
+    expect(
+      await cacheClient.getValue("schema:2", { schema: isVehicle })
+    ).toBeNull();
+    expect(await cacheClient.exists("schema:2")).toBe(false);
+
+    await cacheClient.setValue("schema:2", { id: 2, name: "train" });
+    expect(
+      await cacheClient.getValue("schema:2", { schema: isVehicle })
+    ).toEqual({ id: 2, name: "train" });
+  });
+
+  test("Versions do not share entries", async () => {
+    const v1 = await cacheClient.getValueOrRetrieve(
+      "schema:3",
+      async () => "v1",
+      { version: 1 }
+    );
+    const v2 = await cacheClient.getValueOrRetrieve(
+      "schema:3",
+      async () => "v2",
+      { version: 2 }
+    );
+    const v1Again = await cacheClient.getValueOrRetrieve(
+      "schema:3",
+      async () => "v1 again",
+      { version: 1 }
+    );
+    expect([v1, v2, v1Again]).toEqual(["v1", "v2", "v1"]);
+  });
+});
@@ -0,0 +1,99 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { CacheClient, MemoryStore } from "..";
+
+//Store simulating the script cache of a server. Scripts echo their KEYS and ARGV
+class ScriptStore extends MemoryStore {
+  scripts = new Set<string>();
+  calls: string[] = [];
+
+  async eval(script: string, keys: string[], args: string[]) {
+    this.calls.push("EVAL");
+    this.scripts.add(new Bun.CryptoHasher("sha1").update(script).digest("hex"));
+    return [keys, args];
+  }
+
+  async evalsha(sha: string, keys: string[], args: string[]) {
+    this.calls.push("EVALSHA");
+    if (!this.scripts.has(sha)) {
+      throw new Error("NOSCRIPT No matching script. Please use EVAL.");
+    }
+    return [keys, args];
+  }
+}
+
+describe("defineScript", async () => {
+  let cacheClient: CacheClient;
+
+  beforeAll(async () => {
+    cacheClient = await CacheClient.create();
+  });
+
+  afterAll(async () => {
+    cacheClient.close();
+  });
+
+  test("Run a script", async () => {
+    const incrementCapped = cacheClient.defineScript<
+      [string, number, number],
+      number
+    >(
+      `return math.min(redis.call("INCRBY", KEYS[1], ARGV[1]), tonumber(ARGV[2]))`,
+      { keys: 1, decode: Number }
+    );
+    await cacheClient.del("script:counter");
+
+    expect(await incrementCapped("script:counter", 3, 5)).toBe(3);
+    expect(await incrementCapped("script:counter", 3, 5)).toBe(5);
+    await cacheClient.del("script:counter");
+  });
+});
+
+describe("script cache", () => {
+  test("Load scripts unknown to the server", async () => {
+    const store = new ScriptStore();
+    const cacheClient = await CacheClient.create({ store });
+    const script = cacheClient.defineScript("return 1");
+
+    await script();
+    await script();
+    expect(store.calls).toEqual(["EVALSHA", "EVAL", "EVALSHA"]);
+
+    //Server restarted
+    store.scripts.clear();
+    await script();
+    expect(store.calls.slice(3)).toEqual(["EVALSHA", "EVAL"]);
+    cacheClient.close();
+  });
+
+  test("Prefix keys", async () => {
+    const cacheClient = await CacheClient.create({ store: new ScriptStore() });
+    const script = cacheClient
+      .namespace("users")
+      .defineScript<[string, string, number], [string[], string[]]>(
+        "return 1",
+        { keys: 2 }
+      );
+
+    expect(await script("a", "b", 1)).toEqual([["users:a", "users:b"], ["1"]]);
+    cacheClient.close();
+  });
+
+  test("Rethrow other errors", async () => {
+    const store = new ScriptStore();
+    store.evalsha = async () => {
+      throw new Error("ERR Error running script");
+    };
+    const cacheClient = await CacheClient.create({ store });
+
+    await expect(cacheClient.defineScript("return 1")()).rejects.toThrow(
+      "ERR Error running script"
+    );
+    cacheClient.close();
+  });
+
+  test("Require script support", async () => {
+    const cacheClient = await CacheClient.create({ store: new MemoryStore() });
+    expect(() => cacheClient.defineScript("return 1")).toThrow();
+    cacheClient.close();
+  });
+});
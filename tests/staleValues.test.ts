@@ -0,0 +1,93 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { CacheClient } from "..";
+
+describe("staleValues", async () => {
+  let cacheClient: CacheClient;
+
+  beforeAll(async () => {
+    cacheClient = await CacheClient.create();
+  });
+
+  afterAll(async () => {
+    cacheClient.close();
+  });
+
+  test("Stale while revalidate", async () => {
+    const key = "staleWhileRevalidate";
+
+    await cacheClient.del(key);
+
+    let count = 0;
+    const retrieve = async () => {
+      count++;
+      return count;
+    };
+    const options = { duration: 100, staleWhileRevalidate: 1000 };
+
+    await cacheClient.getValueOrRetrieve(key, retrieve, options);
+    await Bun.sleep(150);
+
+    //Expired value is returned immediately and refreshed in the background
+    const stale = await cacheClient.getValueOrRetrieve(key, retrieve, options);
+    await Bun.sleep(20);
+    const fresh = await cacheClient.getValueOrRetrieve(key, retrieve, options);
+
+    expect(stale).toBe(1);
+    expect(fresh).toBe(2);
+    expect(count).toBe(2);
+  });
+
+  test("Stale if error", async () => {
+    const key = "staleIfError";
+
+    await cacheClient.del(key);
+
+    const options = { duration: 100, staleIfError: 1000 };
+
+    await cacheClient.getValueOrRetrieve(key, async () => "value", options);
+    await Bun.sleep(150);
+
+    const res = await cacheClient.getValueOrRetrieve(
+      key,
+      async (): Promise<string> => {
+        throw new Error("Upstream unavailable");
+      },
+      options
+    );
+
+    expect(res).toBe("value");
+  });
+
+  test("Throw after stale if error window", async () => {
+    const key = "staleIfErrorElapsed";
+
+    await cacheClient.del(key);
+
+    const options = { duration: 100, staleIfError: 100 };
+
+    await cacheClient.getValueOrRetrieve(key, async () => "value", options);
+    await Bun.sleep(250);
+
+    await expect(
+      cacheClient.getValueOrRetrieve(
+        key,
+        async (): Promise<string> => {
+          throw new Error("Upstream unavailable");
+        },
+        options
+      )
+    ).rejects.toThrow("Upstream unavailable");
+  });
+
+  test("Read values with metadata", async () => {
+    const key = "staleGetValue";
+
+    await cacheClient.del(key);
+
+    await cacheClient.getValueOrRetrieve(key, async () => ({ foo: "bar" }), {
+      staleWhileRevalidate: 1000,
+    });
+
+    expect(await cacheClient.getValue(key)).toMatchObject({ foo: "bar" });
+  });
+});
@@ -0,0 +1,77 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { CacheClient, MemoryStore } from "..";
+
+describe("tags", async () => {
+  let cacheClient: CacheClient;
+
+  beforeAll(async () => {
+    cacheClient = await CacheClient.create();
+  });
+
+  afterAll(async () => {
+    cacheClient.close();
+  });
+
+  test("Invalidate tagged keys", async () => {
+    await cacheClient.getValueOrRetrieve(
+      ["vehicles", "de"],
+      async () => ["Auto"],
+      { tags: ["vehicles"] }
+    );
+    await cacheClient.getValueOrRetrieve(
+      ["vehicles", "en"],
+      async () => ["Car"],
+      { tags: ["vehicles"] }
+    );
+    await cacheClient.setValue("vehicleCount", 2, { tags: ["vehicles"] });
+    await cacheClient.setValue("untagged", 1);
+
+    const deleted = await cacheClient.invalidateTags("vehicles");
+    await cacheClient.del("untagged");
+
+    expect(deleted).toBe(3);
+    expect(await cacheClient.exists("_vehicles_de")).toBe(false);
+    expect(await cacheClient.exists("vehicleCount")).toBe(false);
+    expect(await cacheClient.exists("%__TAG__%:vehicles")).toBe(false);
+  });
+
+  test("Ignore expired keys", async () => {
+    await cacheClient.setValue("expiringTagged", 1, {
+      duration: 100,
+      tags: ["expiring"],
+    });
+
+    await Bun.sleep(150);
+
+    expect(await cacheClient.invalidateTags("expiring")).toBe(0);
+  });
+
+  test("Prune expired keys from the index", async () => {
+    await cacheClient.setValue("pruneExpired", 1, {
+      duration: 50,
+      tags: ["prune"],
+    });
+    await Bun.sleep(100);
+    await cacheClient.setValue("pruneLiving", 1, {
+      duration: 1000,
+      tags: ["prune"],
+    });
+
+    expect(await cacheClient.client.smembers("%__TAG__%:prune")).toEqual([
+      "pruneLiving",
+    ]);
+    expect(await cacheClient.invalidateTags("prune")).toBe(1);
+  });
+});
+
+describe("tags without scripts", async () => {
+  test("Do not save tagged values", async () => {
+    const cacheClient = await CacheClient.create({ store: new MemoryStore() });
+
+    await expect(
+      cacheClient.setValue("tagged", 1, { tags: ["tag"] })
+    ).rejects.toThrow();
+    expect(await cacheClient.exists("tagged")).toBe(false);
+    cacheClient.close();
+  });
+});
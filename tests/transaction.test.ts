@@ -0,0 +1,155 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { CacheClient, TransactionAbortedError, msgpackCodec } from "..";
+
+describe("transaction", async () => {
+  let cacheClient: CacheClient;
+
+  beforeAll(async () => {
+    cacheClient = await CacheClient.create();
+  });
+
+  afterAll(async () => {
+    cacheClient.close();
+  });
+
+  test("Typed results", async () => {
+    const key = "transaction_typed";
+    await cacheClient.del(key);
+
+    const [set, value, exists, deleted] = await cacheClient.transaction((tx) =>
+      tx
+        .setValue(key, { foo: "bar" })
+        .getValue<{ foo: string }>(key)
+        .exists(key)
+        .del(key)
+    );
+
+    expect(set).toBe("OK");
+    expect(value).toMatchObject({ foo: "bar" });
+    expect(exists).toBe(true);
+    expect(deleted).toBe(1);
+  });
+
+  test("Binary values", async () => {
+    const key = "transaction_binary";
+    const value = { createdAt: 1, values: [1, 2, 3] };
+
+    const [, res] = await cacheClient
+      .multi()
+      .setValue(key, value, { codec: msgpackCodec, duration: 1000 })
+      .getValue<typeof value>(key)
+      .exec();
+    await cacheClient.del(key);
+
+    expect(res).toEqual(value);
+  });
+
+  test("Large binary values", async () => {
+    const key = "transaction_large";
+    const value = {
+      values: Array.from({ length: 50_000 }, (_, i) => i * 1.5),
+    };
+    await cacheClient.setValue(key, value, {
+      codec: msgpackCodec,
+      duration: 1000,
+    });
+
+    const [res] = await cacheClient
+      .multi()
+      .getValue<typeof value>(key)
+      .del(key)
+      .exec();
+    expect(res).toEqual(value);
+  });
+
+  test("Reads observe writes of the transaction", async () => {
+    const key = "transaction_reads";
+    await cacheClient.setValue(key, "before", { duration: 1000 });
+
+    const [before, , after, , deleted] = await cacheClient
+      .multi()
+      .getValue<string>(key)
+      .setValue(key, "after", { duration: 1000 })
+      .getValue<string>(key)
+      .del(key)
+      .getValue<string>(key)
+      .exec();
+    expect(before).toBe("before");
+    expect(after).toBe("after");
+    expect(deleted).toBe(null);
+  });
+
+  test("Discard on error", async () => {
+    const key = "transaction_discard";
+    await cacheClient.del(key);
+
+    await expect(
+      cacheClient.transaction(async (tx) => {
+        tx.setValue(key, 1);
+        throw new Error("Failed");
+      })
+    ).rejects.toThrow("Failed");
+
+    expect(await cacheClient.exists(key)).toBe(false);
+  });
+
+  test("Retry if a watched key changed", async () => {
+    const key = "transaction_watch";
+    await cacheClient.setValue(key, [1]);
+
+    let attempts = 0;
+    await cacheClient.transaction(
+      async (tx) => {
+        const list = (await cacheClient.getValue<number[]>(key)) ?? [];
+        if (attempts++ === 0) {
+          await cacheClient.setValue(key, [1, 2]);
+        }
+        tx.setValue(key, [...list, 3]);
+      },
+      { watch: [key] }
+    );
+
+    const res = await cacheClient.getValue(key);
+    await cacheClient.del(key);
+
+    expect(attempts).toBe(2);
+    expect(res).toEqual([1, 2, 3]);
+  });
+
+  test("Give up after retries", async () => {
+    const key = "transaction_watch_retries";
+
+    let attempts = 0;
+    await expect(
+      cacheClient.transaction(
+        async (tx) => {
+          attempts++;
+          await cacheClient.setValue(key, attempts);
+          tx.setValue(key, 0);
+        },
+        { watch: [key], retries: 2 }
+      )
+    ).rejects.toBeInstanceOf(TransactionAbortedError);
+    await cacheClient.del(key);
+
+    expect(attempts).toBe(3);
+  });
+
+  test("Pipeline", async () => {
+    const [a, b] = await cacheClient
+      .pipeline()
+      .setValue("pipeline_a", 1)
+      .setValue("pipeline_b", 2)
+      .exec();
+    const [valueA, valueB] = await cacheClient
+      .pipeline()
+      .getValue<number>("pipeline_a")
+      .getValue<number>("pipeline_b")
+      .exec();
+    await cacheClient.del("pipeline_a");
+    await cacheClient.del("pipeline_b");
+
+    expect([a, b]).toEqual(["OK", "OK"]);
+    expect([valueA, valueB]).toEqual([1, 2]);
+  });
+});
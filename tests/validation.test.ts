@@ -0,0 +1,48 @@
+import { describe, expect, test } from "bun:test";
+import { type StandardSchema, validate } from "../src/validation";
+
+const positive: StandardSchema<unknown, number> = {
+  "~standard": {
+    version: 1,
+    vendor: "test",
+    validate: (value) =>
+      typeof value === "number" && value > 0
+        ? { value }
+        : { issues: [{ message: "Expected a positive number" }] },
+  },
+};
+
+describe("validate", () => {
+  test("Accept values passing a type guard", async () => {
+    const isString = (value: unknown): value is string =>
+      typeof value === "string";
+    expect(await validate(isString, "a")).toEqual({
+      success: true,
+      value: "a",
+    });
+    const result = await validate(isString, 1);
+    expect(result.success).toBe(false);
+  });
+
+  test("Report the issues of a standard schema", async () => {
+    expect(await validate(positive, 2)).toEqual({ success: true, value: 2 });
+    expect(await validate(positive, -1)).toEqual({
+      success: false,
+      issues: [{ message: "Expected a positive number" }],
+    });
+  });
+
+  test("Return the transformed value of async schemas", async () => {
+    const trimmed: StandardSchema<unknown, string> = {
+      "~standard": {
+        version: 1,
+        vendor: "test",
+        validate: async (value) => ({ value: String(value).trim() }),
+      },
+    };
+    expect(await validate(trimmed, " a ")).toEqual({
+      success: true,
+      value: "a",
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { CacheClient, type WrappedFunction } from "..";
+
+describe("wrap", async () => {
+  let cacheClient: CacheClient;
+
+  beforeAll(async () => {
+    cacheClient = await CacheClient.create({
+      url: "redis://localhost:6379",
+    });
+  });
+
+  afterAll(async () => {
+    cacheClient.close();
+  });
+
+  test("Cache results per arguments", async () => {
+    let count = 0;
+    const add = cacheClient.wrap(
+      async (a: number, b: number) => {
+        count++;
+        return a + b;
+      },
+      { key: (a, b) => ["wrap_add", a, b] }
+    );
+    await add.invalidate(1, 2);
+    await add.invalidate(2, 2);
+
+    expect(await add(1, 2)).toBe(3);
+    expect(await add(1, 2)).toBe(3);
+    expect(await add(2, 2)).toBe(4);
+    expect(count).toBe(2);
+
+    expect(await add.invalidate(1, 2)).toBe(1);
+    expect(await add(1, 2)).toBe(3);
+    expect(count).toBe(3);
+
+    await add.invalidate(1, 2);
+    await add.invalidate(2, 2);
+  });
+
+  test("Default key", async () => {
+    let count = 0;
+    async function findUser(filter: { id: number }) {
+      count++;
+      return { id: filter.id };
+    }
+    const wrapped = cacheClient.wrap(findUser, { name: "wrap_findUser" });
+    await wrapped.invalidate({ id: 1 });
+
+    expect(await wrapped({ id: 1 })).toEqual({ id: 1 });
+    expect(await wrapped({ id: 1 })).toEqual({ id: 1 });
+    expect(count).toBe(1);
+
+    await wrapped.invalidate({ id: 1 });
+  });
+
+  test("Functions require a key or name", () => {
+    expect(() => cacheClient.wrap(async () => 1)).toThrow();
+    async function findUser() {
+      return 1;
+    }
+    expect(() => cacheClient.wrap(findUser)).toThrow();
+  });
+
+  test("Method decorator", async () => {
+    class UserService {
+      calls = 0;
+
+      @cacheClient.cached({ key: (id: number) => ["wrap_user", id] })
+      async getUser(id: number) {
+        this.calls++;
+        return { id };
+      }
+    }
+
+    const service = new UserService();
+    const getUser = service.getUser as WrappedFunction<
+      [number],
+      { id: number }
+    >;
+    await getUser.invalidate(1);
+
+    expect(await service.getUser(1)).toEqual({ id: 1 });
+    expect(await service.getUser(1)).toEqual({ id: 1 });
+    expect(service.calls).toBe(1);
+
+    await getUser.invalidate(1);
+  });
+
+  test("Methods of different classes sharing a name", async () => {
+    let calls = 0;
+    class WrapUsers {
+      @cacheClient.cached()
+      async get(id: number) {
+        calls++;
+        return { user: id };
+      }
+    }
+    class WrapOrders {
+      @cacheClient.cached()
+      async get(id: number) {
+        calls++;
+        return { order: id };
+      }
+    }
+    class WrapAdmins extends WrapUsers {}
+
+    const users = new WrapUsers();
+    const orders = new WrapOrders();
+    const admins = new WrapAdmins();
+    const invalidate = async () => {
+      await (users.get as WrappedFunction<[number], unknown>).invalidate(1);
+      await (orders.get as WrappedFunction<[number], unknown>).invalidate(1);
+    };
+    await invalidate();
+
+    expect(await users.get(1)).toEqual({ user: 1 });
+    expect(await orders.get(1)).toEqual({ order: 1 });
+    //Inherited methods share the results of the declaring class
+    expect(await admins.get(1)).toEqual({ user: 1 });
+    expect(calls).toBe(2);
+
+    await invalidate();
+  });
+});